@@ -0,0 +1,42 @@
+-- =====================================================
+-- Event Logs Client Event ID Script
+-- =====================================================
+-- This script stores the ID the extension gives each event (EventData.id)
+-- so retried batches can be deduplicated. /api/events inserts with
+-- ON CONFLICT (user_id, client_event_id) DO NOTHING: an event the server
+-- already has is reported back as a duplicate instead of counted twice.
+--
+-- Rows written before this script have no client ID and are never matched.
+--
+-- Requires: create_event_logs_table.sql
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD THE CLIENT_EVENT_ID COLUMN
+-- =====================================================
+
+ALTER TABLE event_logs
+    ADD COLUMN IF NOT EXISTS client_event_id VARCHAR(100);
+
+-- =====================================================
+-- 2. UNIQUE CONSTRAINT
+-- =====================================================
+
+-- Scoped to the user: IDs are generated by each extension install.
+-- NULLs (older rows) never conflict.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'event_logs_user_client_event_id_key'
+    ) THEN
+        ALTER TABLE event_logs
+            ADD CONSTRAINT event_logs_user_client_event_id_key UNIQUE (user_id, client_event_id);
+    END IF;
+END;
+$$;
+
+-- =====================================================
+-- 3. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON COLUMN event_logs.client_event_id IS 'ID assigned by the extension, unique per user; used to drop retried duplicates';
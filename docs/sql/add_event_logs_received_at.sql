@@ -0,0 +1,33 @@
+-- =====================================================
+-- Event Logs Receive Time Script
+-- =====================================================
+-- This script records when the server received each event, separately from
+-- when the extension says it happened. /api/events corrects created_at for
+-- the extension's clock offset (estimated from the batch's sentAt) and
+-- clamps or rejects timestamps outside the accepted window; the raw
+-- client timestamp is kept in client_created_at.
+--
+-- Rows written before this script have NULL in both new columns.
+--
+-- Requires: create_event_logs_table.sql
+-- =====================================================
+
+-- =====================================================
+-- 1. ADD THE COLUMNS
+-- =====================================================
+
+ALTER TABLE event_logs
+    ADD COLUMN IF NOT EXISTS received_at TIMESTAMPTZ,
+    ADD COLUMN IF NOT EXISTS client_created_at TIMESTAMPTZ;
+
+-- New rows default to the insert time
+ALTER TABLE event_logs
+    ALTER COLUMN received_at SET DEFAULT NOW();
+
+-- =====================================================
+-- 2. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON COLUMN event_logs.created_at IS 'When the event happened: the client timestamp corrected for clock offset and clamped to the accepted window';
+COMMENT ON COLUMN event_logs.received_at IS 'When the server received the event';
+COMMENT ON COLUMN event_logs.client_created_at IS 'Timestamp as sent by the extension, before any correction';
@@ -0,0 +1,219 @@
+-- =====================================================
+-- Analytics Functions Creation Script
+-- =====================================================
+-- This script creates the functions behind the dashboard analytics API
+-- (/api/analytics/*). Days are calendar days in the user's time zone, so
+-- late-evening sessions count towards the day the user saw them on.
+--
+-- The functions take the user ID as an argument, so they are only
+-- executable by the service role; the API routes pass the ID from the
+-- verified credential.
+--
+-- Requires: create_event_logs_table.sql
+-- =====================================================
+
+-- =====================================================
+-- 1. DAILY EVENT COUNTS
+-- =====================================================
+
+-- Count a user's events of one type per local calendar day.
+-- start_day/end_day are inclusive; NULL means unbounded.
+CREATE OR REPLACE FUNCTION get_daily_event_counts(
+    user_uuid UUID,
+    event_name TEXT,
+    time_zone TEXT DEFAULT 'UTC',
+    start_day DATE DEFAULT NULL,
+    end_day DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    day DATE,
+    event_count BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (el.created_at AT TIME ZONE time_zone)::DATE AS day,
+        COUNT(*) AS event_count
+    FROM event_logs el
+    WHERE el.user_id = user_uuid
+        AND el.event_type = event_name
+        AND (start_day IS NULL OR el.created_at >= (start_day::TIMESTAMP AT TIME ZONE time_zone))
+        AND (end_day IS NULL OR el.created_at < ((end_day + 1)::TIMESTAMP AT TIME ZONE time_zone))
+    GROUP BY 1
+    ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 2. ACTIVITY STREAKS
+-- =====================================================
+
+-- Current and longest run of consecutive local days with at least one
+-- event of the given type. The current streak stays alive until the end
+-- of the day after the last active day (today may not be over yet).
+CREATE OR REPLACE FUNCTION get_event_streaks(
+    user_uuid UUID,
+    event_name TEXT,
+    time_zone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE (
+    current_streak INTEGER,
+    longest_streak INTEGER,
+    last_active_day DATE
+) AS $$
+DECLARE
+    today DATE := (NOW() AT TIME ZONE time_zone)::DATE;
+BEGIN
+    RETURN QUERY
+    WITH active_days AS (
+        SELECT DISTINCT (el.created_at AT TIME ZONE time_zone)::DATE AS day
+        FROM event_logs el
+        WHERE el.user_id = user_uuid
+            AND el.event_type = event_name
+    ),
+    -- Consecutive days share the same (day - row number)
+    islands AS (
+        SELECT ad.day, ad.day - (ROW_NUMBER() OVER (ORDER BY ad.day))::INTEGER AS island
+        FROM active_days ad
+    ),
+    streaks AS (
+        SELECT MAX(i.day) AS end_day, COUNT(*)::INTEGER AS length
+        FROM islands i
+        GROUP BY i.island
+    )
+    SELECT
+        COALESCE((SELECT s.length FROM streaks s WHERE s.end_day >= today - 1 ORDER BY s.end_day DESC LIMIT 1), 0),
+        COALESCE((SELECT MAX(s.length) FROM streaks s), 0),
+        (SELECT MAX(ad.day) FROM active_days ad);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 3. ANALYTICS SUMMARY
+-- =====================================================
+
+-- Everything the dashboard's progress cards show, in one call:
+-- minutes sourced and products sourced between start_day and end_day
+-- (inclusive; NULL = unbounded), products sourced today, all-time
+-- products, and streaks. Minutes come from session_end metadata.sessionLength.
+CREATE OR REPLACE FUNCTION get_user_analytics_summary(
+    user_uuid UUID,
+    time_zone TEXT DEFAULT 'UTC',
+    start_day DATE DEFAULT NULL,
+    end_day DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    minutes_sourced NUMERIC,
+    products_sourced BIGINT,
+    products_today BIGINT,
+    total_products BIGINT,
+    current_streak INTEGER,
+    longest_streak INTEGER,
+    last_active_day DATE
+) AS $$
+DECLARE
+    today DATE := (NOW() AT TIME ZONE time_zone)::DATE;
+    today_start TIMESTAMPTZ := today::TIMESTAMP AT TIME ZONE time_zone;
+    range_start TIMESTAMPTZ := COALESCE(start_day::TIMESTAMP AT TIME ZONE time_zone, '-infinity'::TIMESTAMPTZ);
+    range_end TIMESTAMPTZ := COALESCE((end_day + 1)::TIMESTAMP AT TIME ZONE time_zone, 'infinity'::TIMESTAMPTZ);
+BEGIN
+    RETURN QUERY
+    SELECT
+        totals.minutes,
+        totals.products_in_range,
+        totals.products_on_day,
+        totals.products_all_time,
+        streaks.current_streak,
+        streaks.longest_streak,
+        streaks.last_active_day
+    FROM (
+        SELECT
+            COALESCE(SUM((el.metadata->>'sessionLength')::NUMERIC) FILTER (
+                WHERE el.event_type = 'session_end'
+                    AND jsonb_typeof(el.metadata->'sessionLength') = 'number'
+                    AND el.created_at >= range_start AND el.created_at < range_end
+            ), 0) AS minutes,
+            COUNT(*) FILTER (
+                WHERE el.event_type = 'product_sourced'
+                    AND el.created_at >= range_start AND el.created_at < range_end
+            ) AS products_in_range,
+            COUNT(*) FILTER (
+                WHERE el.event_type = 'product_sourced' AND el.created_at >= today_start
+            ) AS products_on_day,
+            COUNT(*) FILTER (WHERE el.event_type = 'product_sourced') AS products_all_time
+        FROM event_logs el
+        WHERE el.user_id = user_uuid
+            AND el.event_type IN ('session_end', 'product_sourced')
+    ) totals
+    CROSS JOIN get_event_streaks(user_uuid, 'product_sourced', time_zone) streaks;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 4. TRENDS
+-- =====================================================
+
+-- Trend metrics per day, week (starting Monday) or month between start_day
+-- and end_day (inclusive). Only periods with events are returned; each
+-- period is labelled by its first day, which can fall before start_day when
+-- the range starts mid-week or mid-month.
+CREATE OR REPLACE FUNCTION get_user_trends(
+    user_uuid UUID,
+    time_zone TEXT,
+    start_day DATE,
+    end_day DATE,
+    bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+    period_start DATE,
+    minutes_sourced NUMERIC,
+    products_sourced BIGINT,
+    exports BIGINT,
+    pricing_modified BIGINT
+) AS $$
+BEGIN
+    IF bucket NOT IN ('day', 'week', 'month') THEN
+        RAISE EXCEPTION 'bucket must be day, week or month, got %', bucket;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        DATE_TRUNC(bucket, el.created_at AT TIME ZONE time_zone)::DATE AS period,
+        COALESCE(SUM((el.metadata->>'sessionLength')::NUMERIC) FILTER (
+            WHERE el.event_type = 'session_end'
+                AND jsonb_typeof(el.metadata->'sessionLength') = 'number'
+        ), 0),
+        COUNT(*) FILTER (WHERE el.event_type = 'product_sourced'),
+        COUNT(*) FILTER (WHERE el.event_type IN ('export_all_clicked', 'export_filtered_clicked')),
+        COUNT(*) FILTER (WHERE el.event_type = 'pricing_modified')
+    FROM event_logs el
+    WHERE el.user_id = user_uuid
+        AND el.event_type IN ('session_end', 'product_sourced', 'export_all_clicked', 'export_filtered_clicked', 'pricing_modified')
+        AND el.created_at >= (start_day::TIMESTAMP AT TIME ZONE time_zone)
+        AND el.created_at < ((end_day + 1)::TIMESTAMP AT TIME ZONE time_zone)
+    GROUP BY 1
+    ORDER BY 1;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 5. PERMISSIONS
+-- =====================================================
+
+REVOKE ALL ON FUNCTION get_daily_event_counts(UUID, TEXT, TEXT, DATE, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_event_streaks(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_user_analytics_summary(UUID, TEXT, DATE, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_user_trends(UUID, TEXT, DATE, DATE, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_event_counts(UUID, TEXT, TEXT, DATE, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION get_event_streaks(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_user_analytics_summary(UUID, TEXT, DATE, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION get_user_trends(UUID, TEXT, DATE, DATE, TEXT) TO service_role;
+
+-- =====================================================
+-- 6. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON FUNCTION get_daily_event_counts(UUID, TEXT, TEXT, DATE, DATE) IS 'Per-day event counts for a user in a given time zone';
+COMMENT ON FUNCTION get_event_streaks(UUID, TEXT, TEXT) IS 'Current and longest consecutive-day streaks for a user in a given time zone';
+COMMENT ON FUNCTION get_user_analytics_summary(UUID, TEXT, DATE, DATE) IS 'Minutes, product counts and streaks for the dashboard progress cards';
+COMMENT ON FUNCTION get_user_trends(UUID, TEXT, DATE, DATE, TEXT) IS 'Sourcing minutes, products, exports and pricing changes per day, week or month';
@@ -0,0 +1,69 @@
+-- =====================================================
+-- Extension Keys Table Creation Script
+-- =====================================================
+-- This script creates the extension_keys table that stores per-user API
+-- keys for the NexSellPro Chrome extension. Only a SHA-256 hash of each
+-- key is stored; the plaintext key is shown to the user once at creation.
+-- Keys are issued, rotated and revoked through the /api/extension-keys
+-- routes, which use the service role.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE THE EXTENSION_KEYS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS extension_keys (
+    -- Primary identifier
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Owner of the key
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Human-readable name shown in the dashboard (e.g. "Work laptop")
+    label VARCHAR(100) NOT NULL DEFAULT 'Chrome extension',
+
+    -- First characters of the key, safe to display for identification
+    key_prefix VARCHAR(16) NOT NULL,
+
+    -- SHA-256 hex digest of the full key
+    key_hash CHAR(64) NOT NULL UNIQUE,
+
+    -- Key this one replaced when it was issued by a rotation
+    rotated_from UUID REFERENCES extension_keys(id) ON DELETE SET NULL,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    last_used_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+);
+
+-- =====================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- =====================================================
+
+-- Index for listing a user's keys
+CREATE INDEX IF NOT EXISTS idx_extension_keys_user_id ON extension_keys(user_id);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+ALTER TABLE extension_keys ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see their own keys (writes go through the API routes)
+CREATE POLICY "Users can view own extension keys" ON extension_keys
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT SELECT ON extension_keys TO authenticated;
+
+-- =====================================================
+-- 4. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON TABLE extension_keys IS 'Revocable API keys used by the NexSellPro Chrome extension';
+COMMENT ON COLUMN extension_keys.key_prefix IS 'Leading characters of the key, displayed to identify it';
+COMMENT ON COLUMN extension_keys.key_hash IS 'SHA-256 hex digest of the key; the plaintext is never stored';
+COMMENT ON COLUMN extension_keys.rotated_from IS 'Key that was revoked when this key was issued by rotation';
+COMMENT ON COLUMN extension_keys.last_used_at IS 'Last time the key authenticated an API request';
+COMMENT ON COLUMN extension_keys.revoked_at IS 'When the key was revoked; revoked keys are rejected';
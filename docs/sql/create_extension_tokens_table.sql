@@ -0,0 +1,91 @@
+-- =====================================================
+-- Extension Handoff Tables Creation Script
+-- =====================================================
+-- This script creates the tables behind the extension handoff flow:
+--
+-- * extension_handoff_codes - one-time codes minted by the signed-in site
+--   and passed to the Chrome extension
+-- * extension_tokens - access/refresh token pairs the extension receives
+--   in exchange for a code; refreshable and revocable
+--
+-- Only SHA-256 hashes of codes and tokens are stored. Both tables are
+-- written by the /api/extension routes using the service role.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE THE EXTENSION_HANDOFF_CODES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS extension_handoff_codes (
+    -- Primary identifier
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- User the code signs the extension in as
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- SHA-256 hex digest of the code
+    code_hash CHAR(64) NOT NULL UNIQUE,
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    used_at TIMESTAMPTZ
+);
+
+-- =====================================================
+-- 2. CREATE THE EXTENSION_TOKENS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS extension_tokens (
+    -- Primary identifier
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+    -- Owner of the token
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- What the token may be used for (e.g. 'events:write')
+    scopes TEXT[] NOT NULL DEFAULT '{}',
+
+    -- SHA-256 hex digests of the current access and refresh tokens
+    access_token_hash CHAR(64) NOT NULL UNIQUE,
+    refresh_token_hash CHAR(64) NOT NULL UNIQUE,
+
+    -- Timestamps
+    access_expires_at TIMESTAMPTZ NOT NULL,
+    refresh_expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    refreshed_at TIMESTAMPTZ,
+    revoked_at TIMESTAMPTZ
+);
+
+-- =====================================================
+-- 3. CREATE INDEXES FOR PERFORMANCE
+-- =====================================================
+
+-- Index for pruning and revoking a user's tokens
+CREATE INDEX IF NOT EXISTS idx_extension_tokens_user_id ON extension_tokens(user_id, created_at DESC);
+
+-- Index for cleaning up expired codes
+CREATE INDEX IF NOT EXISTS idx_extension_handoff_codes_expires_at ON extension_handoff_codes(expires_at);
+
+-- =====================================================
+-- 4. ENABLE ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+-- No policies: only the service role reads or writes these tables
+ALTER TABLE extension_handoff_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extension_tokens ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 5. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON TABLE extension_handoff_codes IS 'One-time codes the Chrome extension exchanges for its own token';
+COMMENT ON COLUMN extension_handoff_codes.code_hash IS 'SHA-256 hex digest of the code; the plaintext is never stored';
+COMMENT ON COLUMN extension_handoff_codes.used_at IS 'When the code was exchanged; used codes are rejected';
+
+COMMENT ON TABLE extension_tokens IS 'Scoped, refreshable tokens issued to the Chrome extension via handoff codes';
+COMMENT ON COLUMN extension_tokens.scopes IS 'Routes the token may call, checked by authenticateRequest';
+COMMENT ON COLUMN extension_tokens.refresh_token_hash IS 'Replaced on every refresh; old refresh tokens stop working';
+COMMENT ON COLUMN extension_tokens.refreshed_at IS 'Last time the token pair was rotated';
+COMMENT ON COLUMN extension_tokens.revoked_at IS 'When the token was revoked (sign-out or pruning); revoked tokens are rejected';
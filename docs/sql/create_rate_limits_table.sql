@@ -0,0 +1,98 @@
+-- =====================================================
+-- Rate Limits Table Creation Script
+-- =====================================================
+-- This script creates the rate_limits table and rate_limit_hit function
+-- behind the Postgres rate-limit store (src/lib/rate-limit.ts). Each row is
+-- a fixed-window counter for one bucket, e.g.
+-- "events:user:<uuid>" or "password-reset:ip:203.0.113.7".
+--
+-- Only the service role uses these; the API routes call rate_limit_hit.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE THE RATE_LIMITS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS rate_limits (
+    -- Route, scope and subject, e.g. "events:ip:203.0.113.7"
+    bucket TEXT PRIMARY KEY,
+
+    -- Start of the current window and hits counted in it
+    window_start TIMESTAMPTZ NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0
+);
+
+-- =====================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- =====================================================
+
+-- Index for cleaning up old windows
+CREATE INDEX IF NOT EXISTS idx_rate_limits_window_start ON rate_limits(window_start);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+-- No policies: only the service role can read or write
+ALTER TABLE rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 4. RATE LIMIT FUNCTIONS
+-- =====================================================
+
+-- Count one hit on a bucket and return the hits so far in the current
+-- window and when the window ends. Windows are aligned to multiples of
+-- window_seconds, so every server sees the same boundaries.
+CREATE OR REPLACE FUNCTION rate_limit_hit(bucket_key TEXT, window_seconds INTEGER)
+RETURNS TABLE (
+    hit_count INTEGER,
+    reset_at TIMESTAMPTZ
+) AS $$
+DECLARE
+    current_window TIMESTAMPTZ := TO_TIMESTAMP(
+        FLOOR(EXTRACT(EPOCH FROM NOW()) / window_seconds) * window_seconds
+    );
+BEGIN
+    RETURN QUERY
+    INSERT INTO rate_limits AS rl (bucket, window_start, hits)
+    VALUES (bucket_key, current_window, 1)
+    ON CONFLICT (bucket) DO UPDATE
+        SET hits = CASE WHEN rl.window_start = EXCLUDED.window_start THEN rl.hits + 1 ELSE 1 END,
+            window_start = EXCLUDED.window_start
+    RETURNING rl.hits, rl.window_start + MAKE_INTERVAL(secs => window_seconds);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Delete counters whose window ended more than a day ago. Run
+-- periodically, e.g. with pg_cron:
+-- SELECT cron.schedule('cleanup-rate-limits', '0 * * * *', 'SELECT cleanup_rate_limits()');
+CREATE OR REPLACE FUNCTION cleanup_rate_limits()
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER;
+BEGIN
+    DELETE FROM rate_limits
+    WHERE window_start < NOW() - INTERVAL '1 day';
+
+    GET DIAGNOSTICS deleted_count = ROW_COUNT;
+    RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =====================================================
+-- 5. PERMISSIONS
+-- =====================================================
+
+REVOKE ALL ON FUNCTION rate_limit_hit(TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER) TO service_role;
+
+REVOKE ALL ON FUNCTION cleanup_rate_limits() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_rate_limits() TO service_role;
+
+-- =====================================================
+-- 6. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON TABLE rate_limits IS 'Fixed-window request counters for API rate limiting';
+COMMENT ON COLUMN rate_limits.bucket IS 'Route, scope (ip, user, key, token, email) and subject being limited';
+COMMENT ON FUNCTION rate_limit_hit(TEXT, INTEGER) IS 'Count a request against a bucket; returns hits in the current window and when it resets';
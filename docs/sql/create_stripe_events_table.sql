@@ -0,0 +1,72 @@
+-- =====================================================
+-- Stripe Events Ledger Creation Script
+-- =====================================================
+-- This script creates the stripe_events table, a ledger of every Stripe
+-- webhook delivery keyed by the Stripe event ID. The webhook route uses it
+-- to acknowledge duplicate deliveries without re-applying them, and
+-- user_plan.stripe_event_at keeps older events from overwriting newer ones.
+-- Only the service role writes to these tables.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE THE STRIPE_EVENTS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+    -- Stripe event ID (evt_...)
+    id TEXT PRIMARY KEY,
+
+    -- Event details
+    type VARCHAR(100) NOT NULL,
+    livemode BOOLEAN NOT NULL DEFAULT FALSE,
+    stripe_created_at TIMESTAMPTZ NOT NULL,
+
+    -- Delivery tracking
+    received_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    processed_at TIMESTAMPTZ,
+    attempts INTEGER DEFAULT 1 NOT NULL,
+
+    -- Processing result
+    outcome VARCHAR(20) DEFAULT 'pending' NOT NULL CHECK (outcome IN (
+        'pending',
+        'processed',
+        'ignored',
+        'stale',
+        'failed'
+    )),
+    error TEXT
+);
+
+-- =====================================================
+-- 2. CREATE INDEXES FOR PERFORMANCE
+-- =====================================================
+
+-- Index for inspecting recent or failed deliveries
+CREATE INDEX IF NOT EXISTS idx_stripe_events_outcome ON stripe_events(outcome, received_at);
+
+-- =====================================================
+-- 3. ENABLE ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+-- No policies: only the service role (webhook route) can read or write
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- 4. EVENT ORDERING ON USER_PLAN
+-- =====================================================
+
+-- Creation time of the newest Stripe event applied to the row
+ALTER TABLE user_plan
+ADD COLUMN IF NOT EXISTS stripe_event_at TIMESTAMPTZ;
+
+-- =====================================================
+-- 5. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON TABLE stripe_events IS 'Ledger of Stripe webhook deliveries, used for idempotent processing';
+COMMENT ON COLUMN stripe_events.stripe_created_at IS 'When Stripe created the event (event.created)';
+COMMENT ON COLUMN stripe_events.received_at IS 'When the latest delivery attempt was received';
+COMMENT ON COLUMN stripe_events.processed_at IS 'When processing of the latest attempt finished';
+COMMENT ON COLUMN stripe_events.attempts IS 'Number of deliveries that were processed (duplicates are not counted)';
+COMMENT ON COLUMN stripe_events.outcome IS 'pending, processed, ignored (nothing to do), stale (newer event already applied) or failed';
+COMMENT ON COLUMN user_plan.stripe_event_at IS 'Creation time of the newest Stripe event applied; older events are skipped';
@@ -0,0 +1,69 @@
+-- =====================================================
+-- User Onboarding Table Creation Script
+-- =====================================================
+-- This script creates the user_onboarding table that records when each
+-- user completed the dashboard's "Get Started" steps:
+--
+-- 1. extension_installed - the dashboard reached the extension (PING)
+-- 2. extension_synced - the extension redeemed a handoff code or used an
+--    extension key
+-- 3. first_product_sourced - the first product_sourced event arrived
+--
+-- Rows are written by the API routes using the service role.
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE THE USER_ONBOARDING TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS user_onboarding (
+    -- One row per user
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- When each step was first completed (NULL = not yet)
+    extension_installed_at TIMESTAMPTZ,
+    extension_synced_at TIMESTAMPTZ,
+    first_product_sourced_at TIMESTAMPTZ,
+
+    -- Extension version last reported by PING (e.g. "1.4.2")
+    extension_version VARCHAR(32),
+
+    -- Timestamps
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+-- =====================================================
+-- 2. ENABLE ROW LEVEL SECURITY (RLS)
+-- =====================================================
+
+ALTER TABLE user_onboarding ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can see their own progress (writes go through the API routes)
+CREATE POLICY "Users can view own onboarding" ON user_onboarding
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+GRANT SELECT ON user_onboarding TO authenticated;
+
+-- =====================================================
+-- 3. BACKFILL FROM EXISTING EVENTS
+-- =====================================================
+
+-- Users who already sourced products have installed and synced the extension
+INSERT INTO user_onboarding (user_id, extension_installed_at, extension_synced_at, first_product_sourced_at)
+SELECT user_id, MIN(created_at), MIN(created_at), MIN(created_at)
+FROM event_logs
+WHERE event_type = 'product_sourced'
+GROUP BY user_id
+ON CONFLICT (user_id) DO NOTHING;
+
+-- =====================================================
+-- 4. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON TABLE user_onboarding IS 'Per-user progress through the dashboard onboarding steps';
+COMMENT ON COLUMN user_onboarding.extension_installed_at IS 'First time the dashboard detected the Chrome extension';
+COMMENT ON COLUMN user_onboarding.extension_synced_at IS 'First time the extension redeemed a handoff code or used an extension key';
+COMMENT ON COLUMN user_onboarding.first_product_sourced_at IS 'When the first product_sourced event was received';
+COMMENT ON COLUMN user_onboarding.extension_version IS 'Extension version from the most recent PING reply';
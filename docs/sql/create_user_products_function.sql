@@ -0,0 +1,107 @@
+-- =====================================================
+-- Sourced Products Function Creation Script
+-- =====================================================
+-- This script creates the function behind the "My Products" page
+-- (/api/products). It groups a user's product_sourced events by
+-- product_id and returns one page of distinct products with when they were
+-- first and last analyzed, how often, and the newest metadata sent.
+--
+-- The function takes the user ID as an argument, so it is only executable
+-- by the service role; the API route passes the ID from the verified
+-- credential.
+--
+-- Requires: create_event_logs_table.sql
+-- =====================================================
+
+-- =====================================================
+-- 1. INDEXES
+-- =====================================================
+
+-- Grouping a user's sourced products by product
+CREATE INDEX IF NOT EXISTS idx_event_logs_user_product_sourced
+    ON event_logs(user_id, product_id, created_at DESC)
+    WHERE event_type = 'product_sourced';
+
+-- =====================================================
+-- 2. SOURCED PRODUCTS
+-- =====================================================
+
+-- search: substring matched against the product ID and the latest metadata,
+--         already escaped for LIKE (backslash escapes); NULL = no filter
+-- sort_by: last_seen | first_seen | view_count | product_id
+-- sort_dir: asc | desc
+-- total_count is the number of matching products across all pages
+CREATE OR REPLACE FUNCTION get_user_products(
+    user_uuid UUID,
+    search TEXT DEFAULT NULL,
+    sort_by TEXT DEFAULT 'last_seen',
+    sort_dir TEXT DEFAULT 'desc',
+    page_limit INTEGER DEFAULT 25,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    product_id VARCHAR(100),
+    first_seen TIMESTAMPTZ,
+    last_seen TIMESTAMPTZ,
+    view_count BIGINT,
+    latest_metadata JSONB,
+    total_count BIGINT
+) AS $$
+BEGIN
+    IF sort_by NOT IN ('last_seen', 'first_seen', 'view_count', 'product_id') THEN
+        RAISE EXCEPTION 'Invalid sort_by: %', sort_by;
+    END IF;
+    IF sort_dir NOT IN ('asc', 'desc') THEN
+        RAISE EXCEPTION 'Invalid sort_dir: %', sort_dir;
+    END IF;
+
+    RETURN QUERY
+    WITH products AS (
+        SELECT
+            el.product_id AS pid,
+            MIN(el.created_at) AS first_at,
+            MAX(el.created_at) AS last_at,
+            COUNT(*) AS views,
+            (ARRAY_AGG(el.metadata ORDER BY el.created_at DESC))[1] AS meta
+        FROM event_logs el
+        WHERE el.user_id = user_uuid
+            AND el.event_type = 'product_sourced'
+            AND el.product_id IS NOT NULL
+        GROUP BY el.product_id
+    ),
+    matched AS (
+        SELECT p.*
+        FROM products p
+        WHERE search IS NULL
+            OR p.pid ILIKE '%' || search || '%'
+            OR p.meta::TEXT ILIKE '%' || search || '%'
+    )
+    SELECT m.pid, m.first_at, m.last_at, m.views, m.meta, COUNT(*) OVER ()
+    FROM matched m
+    ORDER BY
+        CASE WHEN sort_by = 'last_seen' AND sort_dir = 'asc' THEN m.last_at END ASC,
+        CASE WHEN sort_by = 'last_seen' AND sort_dir = 'desc' THEN m.last_at END DESC,
+        CASE WHEN sort_by = 'first_seen' AND sort_dir = 'asc' THEN m.first_at END ASC,
+        CASE WHEN sort_by = 'first_seen' AND sort_dir = 'desc' THEN m.first_at END DESC,
+        CASE WHEN sort_by = 'view_count' AND sort_dir = 'asc' THEN m.views END ASC,
+        CASE WHEN sort_by = 'view_count' AND sort_dir = 'desc' THEN m.views END DESC,
+        CASE WHEN sort_by = 'product_id' AND sort_dir = 'asc' THEN m.pid END ASC,
+        CASE WHEN sort_by = 'product_id' AND sort_dir = 'desc' THEN m.pid END DESC,
+        m.pid ASC
+    LIMIT page_limit
+    OFFSET page_offset;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =====================================================
+-- 3. PERMISSIONS
+-- =====================================================
+
+REVOKE ALL ON FUNCTION get_user_products(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_user_products(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) TO service_role;
+
+-- =====================================================
+-- 4. COMMENTS AND DOCUMENTATION
+-- =====================================================
+
+COMMENT ON FUNCTION get_user_products(UUID, TEXT, TEXT, TEXT, INTEGER, INTEGER) IS 'One page of the distinct products a user has sourced, with first/last seen, view count and latest metadata';
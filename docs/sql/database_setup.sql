@@ -99,3 +99,26 @@ WHERE email IS NOT NULL AND status = 'inactive';
 -- Add comment for documentation
 COMMENT ON COLUMN user_plan.status IS 'User account status: inactive, active, suspended, cancelled';
 COMMENT ON COLUMN user_plan.last_login IS 'Timestamp of user last login for activity tracking';
+
+-- ===========================
+-- 💳 Migration: Stripe subscription lifecycle statuses
+-- ===========================
+-- The Stripe webhook moves user_plan.status through these values
+COMMENT ON COLUMN user_plan.status IS 'Billing status: inactive, trialing, active, past_due, canceled, refunded';
+
+-- ===========================
+-- 🔗 Migration: Stripe object links on user_plan
+-- ===========================
+-- Written by the Stripe webhook from checkout and subscription events
+ALTER TABLE user_plan
+ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+ADD COLUMN IF NOT EXISTS stripe_price_id TEXT,
+ADD COLUMN IF NOT EXISTS current_period_end TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_plan_stripe_customer_id
+  ON user_plan(stripe_customer_id) WHERE stripe_customer_id IS NOT NULL;
+
+COMMENT ON COLUMN user_plan.stripe_customer_id IS 'Stripe customer (cus_...) for this account';
+COMMENT ON COLUMN user_plan.stripe_subscription_id IS 'Current or most recent Stripe subscription (sub_...)';
+COMMENT ON COLUMN user_plan.stripe_price_id IS 'Stripe price (price_...) the user is on';
+COMMENT ON COLUMN user_plan.current_period_end IS 'End of the current billing period, i.e. the renewal date';
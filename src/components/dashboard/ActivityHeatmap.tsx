@@ -0,0 +1,107 @@
+import React from 'react';
+import type { ActivityDay } from '@/lib/analytics';
+
+const WEEKDAY_LABELS = ['', 'Mon', '', 'Wed', '', 'Fri', ''];
+
+// Cell colors from no activity (0) to the busiest days (4)
+const LEVEL_CLASSES = [
+  'bg-slate-700/50',
+  'bg-green-900',
+  'bg-green-700',
+  'bg-green-500',
+  'bg-green-400'
+];
+
+// Day of week (0 = Sunday) of a YYYY-MM-DD date
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+// Short month name of a YYYY-MM-DD date
+function monthLabel(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleString(undefined, { month: 'short', timeZone: 'UTC' });
+}
+
+// Bucket a count into one of the color levels, relative to the busiest day
+function levelFor(count: number, max: number): number {
+  if (count === 0 || max === 0) return 0;
+  return Math.min(LEVEL_CLASSES.length - 1, Math.ceil((count / max) * (LEVEL_CLASSES.length - 1)));
+}
+
+/**
+ * GitHub-style activity calendar - one column per week, one cell per day,
+ * shaded by the number of products sourced that day.
+ */
+export default function ActivityHeatmap({ calendar }: { calendar: ActivityDay[] }) {
+  if (calendar.length === 0) {
+    return null;
+  }
+
+  // Pad the first week so every column starts on Sunday
+  const cells: (ActivityDay | null)[] = [
+    ...Array<null>(weekday(calendar[0].date)).fill(null),
+    ...calendar
+  ];
+  const weeks: (ActivityDay | null)[][] = [];
+  for (let i = 0; i < cells.length; i += 7) {
+    weeks.push(cells.slice(i, i + 7));
+  }
+
+  const max = Math.max(...calendar.map(day => day.count));
+  const total = calendar.reduce((sum, day) => sum + day.count, 0);
+  const activeDays = calendar.filter(day => day.count > 0).length;
+
+  return (
+    <div>
+      <div className="overflow-x-auto">
+        <div className="inline-flex gap-1">
+          {/* Weekday labels */}
+          <div className="flex flex-col gap-1 mr-1 pt-5">
+            {WEEKDAY_LABELS.map((label, index) => (
+              <div key={index} className="h-3 text-[10px] leading-3 text-gray-500">{label}</div>
+            ))}
+          </div>
+
+          {weeks.map((week, weekIndex) => {
+            // Label the first week of each month
+            const firstDay = week.find(day => day !== null);
+            const previous = weeks[weekIndex - 1]?.find(day => day !== null);
+            const showMonth = firstDay && (!previous || monthLabel(firstDay.date) !== monthLabel(previous.date));
+
+            return (
+              <div key={weekIndex} className="flex flex-col gap-1">
+                <div className="h-4 text-[10px] leading-4 text-gray-500 whitespace-nowrap">
+                  {showMonth ? monthLabel(firstDay.date) : ''}
+                </div>
+                {week.map((day, dayIndex) =>
+                  day ? (
+                    <div
+                      key={day.date}
+                      title={`${day.count} product${day.count === 1 ? '' : 's'} on ${day.date}`}
+                      className={`w-3 h-3 rounded-sm ${LEVEL_CLASSES[levelFor(day.count, max)]}`}
+                    />
+                  ) : (
+                    <div key={`empty-${dayIndex}`} className="w-3 h-3" />
+                  )
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+        <span>
+          {total} products sourced on {activeDays} day{activeDays === 1 ? '' : 's'} in the last year
+        </span>
+        <div className="flex items-center gap-1">
+          <span className="mr-1">Less</span>
+          {LEVEL_CLASSES.map(className => (
+            <div key={className} className={`w-3 h-3 rounded-sm ${className}`} />
+          ))}
+          <span className="ml-1">More</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authorizedFetch } from '@/lib/api-client';
+import type { ExtensionKey } from '@/lib/extension-keys';
+
+// Format an ISO timestamp for display, or a fallback when missing
+function formatDate(value: string | null, fallback: string): string {
+  if (!value) return fallback;
+  return new Date(value).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Connected Devices panel - lists the user's extension API keys and lets
+ * them issue, rotate and revoke keys. A new key's plaintext is only shown
+ * once, right after it is created or rotated.
+ */
+export default function ConnectedDevicesPanel() {
+  const [keys, setKeys] = useState<ExtensionKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyKeyId, setBusyKeyId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [label, setLabel] = useState('');
+  const [newSecret, setNewSecret] = useState<{ label: string; secret: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await authorizedFetch('/api/extension-keys');
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load devices');
+      }
+      setKeys(result.keys);
+    } catch (err) {
+      console.error('[Dashboard] Failed to load extension keys:', err);
+      setError('Could not load your connected devices.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  // Show a freshly issued secret and refresh the list
+  async function handleIssued(response: Response) {
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Request failed');
+    }
+    setNewSecret({ label: result.key.label, secret: result.secret });
+    setCopied(false);
+    await loadKeys();
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const response = await authorizedFetch('/api/extension-keys', {
+        method: 'POST',
+        body: JSON.stringify({ label })
+      });
+      await handleIssued(response);
+      setLabel('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not connect a new device.');
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function handleRotate(key: ExtensionKey) {
+    if (!window.confirm(`Rotate the key for "${key.label}"? The current key will stop working immediately.`)) {
+      return;
+    }
+    setBusyKeyId(key.id);
+    setError(null);
+    try {
+      const response = await authorizedFetch(`/api/extension-keys/${key.id}/rotate`, { method: 'POST' });
+      await handleIssued(response);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not rotate the key.');
+    } finally {
+      setBusyKeyId(null);
+    }
+  }
+
+  async function handleRevoke(key: ExtensionKey) {
+    if (!window.confirm(`Disconnect "${key.label}"? The extension on that device will be signed out.`)) {
+      return;
+    }
+    setBusyKeyId(key.id);
+    setError(null);
+    try {
+      const response = await authorizedFetch(`/api/extension-keys/${key.id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Request failed');
+      }
+      setKeys(prev => prev.filter(k => k.id !== key.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not revoke the key.');
+    } finally {
+      setBusyKeyId(null);
+    }
+  }
+
+  async function handleCopy() {
+    if (!newSecret) return;
+    try {
+      await navigator.clipboard.writeText(newSecret.secret);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  }
+
+  return (
+    <div className="card p-8 bg-gradient-to-br from-slate-800/50 to-slate-700/50 border border-slate-600/30">
+      <h3 className="text-2xl font-bold mb-2 gradient-text flex items-center">
+        <span className="mr-3">🔑</span>
+        Connected Devices
+      </h3>
+      <p className="text-gray-400 mb-6">
+        Each browser running the NexSellPro extension uses its own key. Revoke a key to sign that device out.
+      </p>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 mb-4">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {newSecret && (
+        <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 mb-6">
+          <p className="text-green-400 text-sm font-medium mb-2">
+            New key for &ldquo;{newSecret.label}&rdquo; &mdash; copy it now, it won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-3">
+            <code className="flex-1 bg-slate-900 text-gray-200 text-sm rounded px-3 py-2 break-all">
+              {newSecret.secret}
+            </code>
+            <button onClick={handleCopy} className="btn-accent px-4 py-2 text-sm">
+              {copied ? 'Copied!' : 'Copy'}
+            </button>
+          </div>
+          <button
+            onClick={() => setNewSecret(null)}
+            className="text-gray-400 hover:text-gray-300 text-xs mt-3"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse bg-slate-700/50 h-16 rounded-lg"></div>
+      ) : keys.length === 0 ? (
+        <p className="text-gray-400 text-sm mb-6">No devices connected yet.</p>
+      ) : (
+        <ul className="divide-y divide-slate-700 mb-6">
+          {keys.map(key => (
+            <li key={key.id} className="flex items-center justify-between py-3">
+              <div>
+                <div className="font-medium text-white">
+                  {key.label}
+                  <span className="ml-2 text-xs text-gray-500 font-mono">{key.key_prefix}…</span>
+                </div>
+                <div className="text-sm text-gray-400">
+                  Added {formatDate(key.created_at, '—')} · Last used {formatDate(key.last_used_at, 'never')}
+                </div>
+              </div>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => handleRotate(key)}
+                  disabled={busyKeyId === key.id}
+                  className="text-accent hover:underline text-sm disabled:opacity-50"
+                >
+                  Rotate
+                </button>
+                <button
+                  onClick={() => handleRevoke(key)}
+                  disabled={busyKeyId === key.id}
+                  className="text-red-400 hover:underline text-sm disabled:opacity-50"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleCreate} className="flex items-center gap-3">
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={100}
+          placeholder="Device name, e.g. Work laptop"
+          className="flex-1 px-4 py-2 rounded-lg bg-slate-800 text-white border border-slate-700 focus:outline-none focus:ring-2 focus:ring-accent transition"
+          disabled={creating}
+        />
+        <button
+          type="submit"
+          disabled={creating}
+          className="btn-primary px-4 py-2 text-sm font-medium disabled:opacity-60"
+        >
+          {creating ? 'Connecting...' : 'Connect Device'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { authorizedFetch } from '@/lib/api-client';
+import { EVENT_TYPES } from '@/lib/events';
+
+// Human-readable names for the event type filter
+function eventTypeLabel(type: string): string {
+  return type.replace(/_/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+}
+
+/**
+ * Export controls - downloads the user's event history for a date range as
+ * CSV or JSON, optionally limited to one event type. The file is streamed
+ * by /api/analytics/export.
+ */
+export default function ExportButton({ from, to }: { from: string; to: string }) {
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [eventType, setEventType] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleExport() {
+    setExporting(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        format,
+        tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        from,
+        to
+      });
+      if (eventType) params.set('type', eventType);
+
+      // The route needs the Authorization header, so download via fetch
+      // rather than a plain link
+      const response = await authorizedFetch(`/api/analytics/export?${params}`);
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.error || 'Export failed');
+      }
+
+      // The route resets the connection if the export fails part-way, so
+      // reading the body fails instead of yielding a truncated file
+      const blob = await response.blob().catch(() => {
+        throw new Error('Export was interrupted. Please try again.');
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nexsellpro-events-${from}-to-${to}.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting events:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <select
+        value={eventType}
+        onChange={event => setEventType(event.target.value)}
+        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-gray-200"
+        aria-label="Event type"
+      >
+        <option value="">All events</option>
+        {EVENT_TYPES.map(type => (
+          <option key={type} value={type}>{eventTypeLabel(type)}</option>
+        ))}
+      </select>
+      <select
+        value={format}
+        onChange={event => setFormat(event.target.value as 'csv' | 'json')}
+        className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-gray-200"
+        aria-label="Format"
+      >
+        <option value="csv">CSV</option>
+        <option value="json">JSON</option>
+      </select>
+      <button
+        onClick={handleExport}
+        disabled={exporting}
+        className="btn-accent px-4 py-1 text-sm disabled:opacity-60"
+      >
+        {exporting ? 'Exporting...' : 'Export'}
+      </button>
+      {error && <span className="text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { authorizedFetch } from '@/lib/api-client';
+import type { TrendInterval, TrendMetric, TrendsReport } from '@/lib/analytics';
+import ExportButton from '@/components/dashboard/ExportButton';
+
+const METRICS: { id: TrendMetric; label: string; unit: string; barClass: string }[] = [
+  { id: 'productsSourced', label: 'Products Sourced', unit: 'products', barClass: 'bg-green-400' },
+  { id: 'minutesSourced', label: 'Sourcing Minutes', unit: 'minutes', barClass: 'bg-blue-400' },
+  { id: 'exports', label: 'Exports', unit: 'exports', barClass: 'bg-purple-400' },
+  { id: 'pricingModified', label: 'Pricing Changes', unit: 'changes', barClass: 'bg-orange-400' }
+];
+
+const INTERVALS: { id: TrendInterval; label: string }[] = [
+  { id: 'day', label: 'Daily' },
+  { id: 'week', label: 'Weekly' },
+  { id: 'month', label: 'Monthly' }
+];
+
+const PRESETS = [
+  { label: '7D', days: 7 },
+  { label: '30D', days: 30 },
+  { label: '90D', days: 90 },
+  { label: '1Y', days: 365 }
+];
+
+// Today in the browser's time zone, as YYYY-MM-DD
+function today(): string {
+  return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date());
+}
+
+// Add days to a YYYY-MM-DD date
+function shiftDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Label a period by its first day
+function formatPeriod(periodStart: string, interval: TrendInterval): string {
+  const date = new Date(`${periodStart}T00:00:00Z`);
+  if (interval === 'month') {
+    return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  const day = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return interval === 'week' ? `Week of ${day}` : day;
+}
+
+/**
+ * Trends panel - daily, weekly or monthly series for sourcing minutes,
+ * products, exports and pricing changes over a chosen date range, with
+ * totals compared against the previous period of the same length. The
+ * selected range can be exported as raw events.
+ */
+export default function TrendsPanel() {
+  const [to, setTo] = useState(today);
+  const [from, setFrom] = useState(() => shiftDays(today(), -29));
+  const [trendInterval, setTrendInterval] = useState<TrendInterval>('day');
+  const [metric, setMetric] = useState<TrendMetric>('productsSourced');
+  const [report, setReport] = useState<TrendsReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadTrends() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          from,
+          to,
+          interval: trendInterval
+        });
+        const response = await authorizedFetch(`/api/analytics/trends?${params}`);
+        const result = await response.json();
+        if (!response.ok || !result.trends) {
+          throw new Error(result.error || 'Failed to load trends');
+        }
+        if (!cancelled) setReport(result.trends);
+      } catch (err) {
+        console.error('Error fetching trends:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load trends');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadTrends();
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to, trendInterval]);
+
+  function applyPreset(days: number) {
+    const end = today();
+    setTo(end);
+    setFrom(shiftDays(end, -(days - 1)));
+  }
+
+  const selected = METRICS.find(item => item.id === metric)!;
+  const values = report?.series.map(point => point[metric]) || [];
+  const max = Math.max(1, ...values);
+
+  return (
+    <div className="card p-8 bg-gradient-to-br from-slate-800/50 to-slate-700/50 border border-slate-600/30">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold gradient-text flex items-center">
+          <span className="mr-3">📈</span>
+          Trends
+        </h3>
+
+        {/* Date range picker */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          {PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              onClick={() => applyPreset(preset.days)}
+              className={`px-2 py-1 rounded ${from === shiftDays(to, -(preset.days - 1)) && to === today() ? 'bg-accent text-white' : 'text-gray-400 hover:text-white'}`}
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={event => event.target.value && setFrom(event.target.value)}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-gray-200"
+            aria-label="From"
+          />
+          <span className="text-gray-500">to</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            max={today()}
+            onChange={event => event.target.value && setTo(event.target.value)}
+            className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-gray-200"
+            aria-label="To"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3 mb-4">
+          <p className="text-red-400 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* Metric totals with change vs the previous period */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        {METRICS.map(item => {
+          const change = report?.change[item.id] ?? null;
+          return (
+            <button
+              key={item.id}
+              onClick={() => setMetric(item.id)}
+              className={`text-left rounded-lg p-4 border ${metric === item.id ? 'border-accent bg-accent/10' : 'border-slate-600/50 bg-slate-700/30 hover:border-slate-500'}`}
+            >
+              <div className="text-xs text-gray-400">{item.label}</div>
+              <div className="text-2xl font-bold text-white mt-1">
+                {report ? report.totals[item.id].toLocaleString() : '–'}
+              </div>
+              <div className={`text-xs mt-1 ${change === null ? 'text-gray-500' : change >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {!report
+                  ? ' '
+                  : change === null
+                    ? `${report.previous.totals[item.id].toLocaleString()} in previous period`
+                    : `${change >= 0 ? '▲' : '▼'} ${Math.abs(change)}% vs previous period`}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Interval toggle */}
+      <div className="flex items-center gap-2 mb-4 text-sm">
+        {INTERVALS.map(item => (
+          <button
+            key={item.id}
+            onClick={() => setTrendInterval(item.id)}
+            className={`px-3 py-1 rounded-full ${trendInterval === item.id ? 'bg-slate-600 text-white' : 'text-gray-400 hover:text-white'}`}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Bar chart of the selected metric */}
+      <div className={`h-48 flex items-end gap-px ${loading ? 'opacity-50' : ''}`}>
+        {report?.series.map(point => (
+          <div
+            key={point.periodStart}
+            title={`${formatPeriod(point.periodStart, report.interval)}: ${point[metric].toLocaleString()} ${selected.unit}`}
+            className="flex-1 min-w-0 h-full flex items-end"
+          >
+            <div
+              className={`w-full rounded-t ${selected.barClass}`}
+              style={{ height: `${(point[metric] / max) * 100}%`, minHeight: point[metric] > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      {report && report.series.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-2">
+          <span>{formatPeriod(report.series[0].periodStart, report.interval)}</span>
+          <span>{formatPeriod(report.series[report.series.length - 1].periodStart, report.interval)}</span>
+        </div>
+      )}
+
+      {/* Raw event export for the selected range */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mt-6 pt-4 border-t border-slate-600/50">
+        <span className="text-sm text-gray-400">Download your event history for this range</span>
+        <ExportButton from={from} to={to} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,505 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+
+// ============================================================================
+// USER ANALYTICS
+// ============================================================================
+// Server-only aggregation over event_logs. Days are calendar days in the
+// user's time zone; the heavy lifting happens in the SQL functions from
+// docs/sql/create_analytics_functions.sql.
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Event that counts as a day of sourcing for streaks and the calendar
+export const ACTIVITY_EVENT = 'product_sourced';
+
+// Days shown in the activity calendar, including today
+export const CALENDAR_DAYS = 365;
+
+export const DEFAULT_TIME_ZONE = 'UTC';
+
+// Default range for summaries: the last 7 days, including today
+export const DEFAULT_RANGE_DAYS = 7;
+
+// Longest range a caller may request
+export const MAX_RANGE_DAYS = 731;
+
+// Default range for trends: the last 30 days, including today
+export const DEFAULT_TRENDS_DAYS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Events on one local calendar day
+ */
+export interface ActivityDay {
+  date: string; // YYYY-MM-DD
+  count: number;
+}
+
+/**
+ * Streaks and the activity calendar, as returned by /api/analytics/activity
+ */
+export interface ActivitySummary {
+  timeZone: string;
+  today: string; // YYYY-MM-DD in timeZone
+  currentStreak: number; // Consecutive days up to today (or yesterday)
+  longestStreak: number;
+  lastActiveDay: string | null;
+  calendar: ActivityDay[]; // Oldest first, one entry per day, zero-filled
+}
+
+/**
+ * An inclusive range of local calendar days
+ */
+export interface DateRange {
+  timeZone: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+}
+
+/**
+ * Result of parsing range query parameters. On failure, `error` is safe to
+ * return to the client.
+ */
+export type DateRangeResult =
+  | { ok: true; range: DateRange }
+  | { ok: false; error: string };
+
+/**
+ * Dashboard progress numbers, as returned by /api/analytics/summary
+ */
+export interface AnalyticsSummary extends DateRange {
+  today: string; // YYYY-MM-DD in timeZone
+  minutesSourced: number; // From session_end events in the range
+  productsSourced: number; // product_sourced events in the range
+  productsToday: number;
+  totalProducts: number; // All time
+  currentStreak: number;
+  longestStreak: number;
+  lastActiveDay: string | null;
+}
+
+/**
+ * Period length for a trend series
+ */
+export type TrendInterval = 'day' | 'week' | 'month';
+
+export const TREND_INTERVALS: TrendInterval[] = ['day', 'week', 'month'];
+
+/**
+ * Values a trend series tracks
+ */
+export interface TrendTotals {
+  minutesSourced: number; // From session_end metadata.sessionLength
+  productsSourced: number;
+  exports: number; // export_all_clicked + export_filtered_clicked
+  pricingModified: number;
+}
+
+export type TrendMetric = keyof TrendTotals;
+
+/**
+ * One period of a trend series. `periodStart` is the first day of the day,
+ * week (Monday) or month, and may fall before the range start.
+ */
+export interface TrendPoint extends TrendTotals {
+  periodStart: string; // YYYY-MM-DD
+}
+
+/**
+ * Trend series plus a comparison with the period of equal length just
+ * before the range, as returned by /api/analytics/trends
+ */
+export interface TrendsReport extends DateRange {
+  interval: TrendInterval;
+  series: TrendPoint[]; // Oldest first, zero-filled
+  totals: TrendTotals;
+  previous: DateRange & { totals: TrendTotals };
+  // Percent change from the previous period; null when it had none
+  change: Record<TrendMetric, number | null>;
+}
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * Check whether a string is an IANA time zone this runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The local calendar date of an instant in a time zone
+ * @param timeZone - IANA time zone, e.g. 'America/Chicago'
+ * @param at - The instant (default: now)
+ * @returns {string} The date as YYYY-MM-DD
+ */
+export function localDate(timeZone: string, at: Date = new Date()): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(at);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const time = Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY;
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Number of days in an inclusive range
+ */
+export function daysInRange(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY) + 1;
+}
+
+/**
+ * Offset of a time zone from UTC at an instant, in milliseconds
+ */
+function timeZoneOffset(timeZone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(at));
+  const part = (type: string) => Number(parts.find(item => item.type === type)?.value);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - Math.floor(at / 1000) * 1000;
+}
+
+/**
+ * The instant a local calendar day starts, e.g. for filtering timestamps
+ * @param date - The day (YYYY-MM-DD)
+ * @param timeZone - IANA time zone the day is in
+ * @returns {string} ISO timestamp of local midnight
+ */
+export function startOfLocalDay(date: string, timeZone: string): string {
+  const midnightUtc = Date.parse(`${date}T00:00:00Z`);
+  const guess = midnightUtc - timeZoneOffset(timeZone, midnightUtc);
+  // Re-read the offset at the guess in case a DST change falls in between
+  return new Date(midnightUtc - timeZoneOffset(timeZone, guess)).toISOString();
+}
+
+/**
+ * Check that a string is a real YYYY-MM-DD calendar date
+ */
+export function isDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Read `tz`, `from` and `to` query parameters. Missing values default to
+ * UTC and the DEFAULT_RANGE_DAYS days ending today.
+ *
+ * @param query - The request query (req.query)
+ * @param defaultDays - Range length when `from` is missing (default: DEFAULT_RANGE_DAYS)
+ * @returns {DateRangeResult} The range, or a client-facing error
+ */
+export function parseDateRange(
+  query: Partial<Record<string, string | string[]>>,
+  defaultDays: number = DEFAULT_RANGE_DAYS
+): DateRangeResult {
+  const param = (name: string) => (typeof query[name] === 'string' && query[name] ? query[name] as string : undefined);
+
+  const timeZone = param('tz') || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return { ok: false, error: 'Invalid time zone' };
+  }
+
+  // Checked before the default `from` is derived from `to`
+  const to = param('to') || localDate(timeZone);
+  const requestedFrom = param('from');
+  if (!isDate(to) || (requestedFrom && !isDate(requestedFrom))) {
+    return { ok: false, error: 'from and to must be YYYY-MM-DD dates' };
+  }
+  const from = requestedFrom || addDays(to, -(defaultDays - 1));
+  if (from > to) {
+    return { ok: false, error: 'from must not be after to' };
+  }
+  if (daysInRange(from, to) > MAX_RANGE_DAYS) {
+    return { ok: false, error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` };
+  }
+
+  return { ok: true, range: { timeZone, from, to } };
+}
+
+/**
+ * Add calendar months to a YYYY-MM-01 date
+ */
+function addMonths(date: string, months: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCMonth(value.getUTCMonth() + months);
+  return value.toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the period containing a date, matching Postgres DATE_TRUNC
+ * (weeks start on Monday)
+ */
+function periodStart(date: string, interval: TrendInterval): string {
+  if (interval === 'month') {
+    return `${date.slice(0, 7)}-01`;
+  }
+  if (interval === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay(); // 0 = Sunday
+    return addDays(date, -((weekday + 6) % 7));
+  }
+  return date;
+}
+
+/**
+ * First day of the next period
+ */
+function nextPeriod(start: string, interval: TrendInterval): string {
+  if (interval === 'month') return addMonths(start, 1);
+  return addDays(start, interval === 'week' ? 7 : 1);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Count a user's events of one type per local day
+ * @param userId - The user
+ * @param eventType - Event type to count, e.g. 'product_sourced'
+ * @param timeZone - IANA time zone the days are in
+ * @param startDay - First day (YYYY-MM-DD, inclusive)
+ * @param endDay - Last day (YYYY-MM-DD, inclusive)
+ * @returns {Promise<ActivityDay[]>} Every day in the range, oldest first, zero-filled
+ */
+export async function getDailyEventCounts(
+  userId: string,
+  eventType: string,
+  timeZone: string,
+  startDay: string,
+  endDay: string
+): Promise<ActivityDay[]> {
+  const { data, error } = await supabaseAdmin.rpc('get_daily_event_counts', {
+    user_uuid: userId,
+    event_name: eventType,
+    time_zone: timeZone,
+    start_day: startDay,
+    end_day: endDay
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const counts = new Map<string, number>(
+    (data || []).map((row: { day: string; event_count: number }) => [row.day, Number(row.event_count)])
+  );
+
+  const days: ActivityDay[] = [];
+  for (let date = startDay; date <= endDay; date = addDays(date, 1)) {
+    days.push({ date, count: counts.get(date) || 0 });
+  }
+  return days;
+}
+
+/**
+ * Streaks and the past year of sourcing activity for a user
+ * @param userId - The user
+ * @param timeZone - IANA time zone the days are in
+ * @returns {Promise<ActivitySummary>} Streaks plus a zero-filled calendar
+ */
+export async function getActivitySummary(userId: string, timeZone: string): Promise<ActivitySummary> {
+  const today = localDate(timeZone);
+
+  const [calendar, streaks] = await Promise.all([
+    getDailyEventCounts(userId, ACTIVITY_EVENT, timeZone, addDays(today, -(CALENDAR_DAYS - 1)), today),
+    supabaseAdmin
+      .rpc('get_event_streaks', { user_uuid: userId, event_name: ACTIVITY_EVENT, time_zone: timeZone })
+      .maybeSingle<{ current_streak: number; longest_streak: number; last_active_day: string | null }>()
+  ]);
+
+  if (streaks.error) {
+    throw streaks.error;
+  }
+
+  return {
+    timeZone,
+    today,
+    currentStreak: streaks.data?.current_streak ?? 0,
+    longestStreak: streaks.data?.longest_streak ?? 0,
+    lastActiveDay: streaks.data?.last_active_day ?? null,
+    calendar
+  };
+}
+
+/**
+ * Minutes, product counts and streaks for a user in one query
+ * @param userId - The user
+ * @param range - Days to total minutes and products over
+ * @returns {Promise<AnalyticsSummary>} The summary
+ */
+export async function getAnalyticsSummary(userId: string, range: DateRange): Promise<AnalyticsSummary> {
+  const { data, error } = await supabaseAdmin
+    .rpc('get_user_analytics_summary', {
+      user_uuid: userId,
+      time_zone: range.timeZone,
+      start_day: range.from,
+      end_day: range.to
+    })
+    .maybeSingle<{
+      minutes_sourced: number | string;
+      products_sourced: number | string;
+      products_today: number | string;
+      total_products: number | string;
+      current_streak: number;
+      longest_streak: number;
+      last_active_day: string | null;
+    }>();
+
+  if (error) {
+    throw error;
+  }
+
+  // NUMERIC and BIGINT columns may arrive as strings
+  return {
+    ...range,
+    today: localDate(range.timeZone),
+    minutesSourced: Math.round(Number(data?.minutes_sourced ?? 0)),
+    productsSourced: Number(data?.products_sourced ?? 0),
+    productsToday: Number(data?.products_today ?? 0),
+    totalProducts: Number(data?.total_products ?? 0),
+    currentStreak: data?.current_streak ?? 0,
+    longestStreak: data?.longest_streak ?? 0,
+    lastActiveDay: data?.last_active_day ?? null
+  };
+}
+
+const EMPTY_TOTALS: TrendTotals = { minutesSourced: 0, productsSourced: 0, exports: 0, pricingModified: 0 };
+
+const TREND_METRICS = Object.keys(EMPTY_TOTALS) as TrendMetric[];
+
+/**
+ * Trend metrics per period, zero-filled
+ * @param userId - The user
+ * @param range - Days to cover
+ * @param interval - Period length
+ * @returns {Promise<TrendPoint[]>} One point per period, oldest first
+ */
+async function getTrendSeries(userId: string, range: DateRange, interval: TrendInterval): Promise<TrendPoint[]> {
+  const { data, error } = await supabaseAdmin.rpc('get_user_trends', {
+    user_uuid: userId,
+    time_zone: range.timeZone,
+    start_day: range.from,
+    end_day: range.to,
+    bucket: interval
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  // NUMERIC and BIGINT columns may arrive as strings
+  const byPeriod = new Map<string, TrendTotals>(
+    (data || []).map((row: {
+      period_start: string;
+      minutes_sourced: number | string;
+      products_sourced: number | string;
+      exports: number | string;
+      pricing_modified: number | string;
+    }) => [row.period_start, {
+      minutesSourced: Math.round(Number(row.minutes_sourced)),
+      productsSourced: Number(row.products_sourced),
+      exports: Number(row.exports),
+      pricingModified: Number(row.pricing_modified)
+    }])
+  );
+
+  const series: TrendPoint[] = [];
+  for (let start = periodStart(range.from, interval); start <= range.to; start = nextPeriod(start, interval)) {
+    series.push({ periodStart: start, ...(byPeriod.get(start) || EMPTY_TOTALS) });
+  }
+  return series;
+}
+
+/**
+ * Add up a series
+ */
+function sumSeries(series: TrendTotals[]): TrendTotals {
+  return series.reduce<TrendTotals>((totals, point) => ({
+    minutesSourced: totals.minutesSourced + point.minutesSourced,
+    productsSourced: totals.productsSourced + point.productsSourced,
+    exports: totals.exports + point.exports,
+    pricingModified: totals.pricingModified + point.pricingModified
+  }), { ...EMPTY_TOTALS });
+}
+
+/**
+ * Percent change from `previous` to `current`, or null if previous is zero
+ */
+function percentChange(current: number, previous: number): number | null {
+  if (previous === 0) return null;
+  return Math.round(((current - previous) / previous) * 1000) / 10;
+}
+
+/**
+ * Trend series for a range, compared with the equally long period before it
+ * @param userId - The user
+ * @param range - Days to cover
+ * @param interval - Period length for the series
+ * @returns {Promise<TrendsReport>} The series, totals and change vs the previous period
+ */
+export async function getTrends(userId: string, range: DateRange, interval: TrendInterval): Promise<TrendsReport> {
+  const length = daysInRange(range.from, range.to);
+  const previousRange: DateRange = {
+    timeZone: range.timeZone,
+    from: addDays(range.from, -length),
+    to: addDays(range.from, -1)
+  };
+
+  const [series, previousSeries] = await Promise.all([
+    getTrendSeries(userId, range, interval),
+    // Only the totals are needed, so use the coarsest periods
+    getTrendSeries(userId, previousRange, 'month')
+  ]);
+
+  const totals = sumSeries(series);
+  const previousTotals = sumSeries(previousSeries);
+
+  const change = Object.fromEntries(
+    TREND_METRICS.map(metric => [metric, percentChange(totals[metric], previousTotals[metric])])
+  ) as Record<TrendMetric, number | null>;
+
+  return {
+    ...range,
+    interval,
+    series,
+    totals,
+    previous: { ...previousRange, totals: previousTotals },
+    change
+  };
+}
@@ -0,0 +1,199 @@
+import type { NextApiRequest } from 'next';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { isExtensionKey, verifyExtensionKey } from '@/lib/extension-keys';
+import {
+  isExtensionAccessToken,
+  verifyExtensionAccessToken,
+  type ExtensionScope,
+} from '@/lib/extension-tokens';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How the caller proved its identity
+ */
+export type AuthMethod = 'session' | 'extension_key' | 'extension_token';
+
+/**
+ * Identity resolved from a verified credential
+ */
+export interface ApiIdentity {
+  userId: string;
+  email?: string;
+  method: AuthMethod;
+  /** ID of the extension key used, when method is 'extension_key' */
+  keyId?: string;
+  /** ID of the extension token used, when method is 'extension_token' */
+  tokenId?: string;
+}
+
+/**
+ * Options for authenticateRequest
+ */
+export interface AuthenticateOptions {
+  /**
+   * Accept extension credentials - per-user API keys and handoff access
+   * tokens - in addition to session tokens (default: false)
+   */
+  allowExtensionKey?: boolean;
+  /** Scope an extension access token must carry to use the route */
+  scope?: ExtensionScope;
+}
+
+/**
+ * Result of authenticating an API request. On failure, `status` is the HTTP
+ * status the route should respond with.
+ */
+export type ApiAuthResult =
+  | { ok: true; identity: ApiIdentity }
+  | { ok: false; status: 401 | 403; error: string };
+
+// ============================================================================
+// CREDENTIAL PARSING
+// ============================================================================
+
+/**
+ * Extract the credential from an "Authorization: Bearer <token>" header
+ * @param authHeader - Raw Authorization header value
+ * @returns {string | null} The token, or null if the header is missing or malformed
+ */
+export function getBearerToken(authHeader: string | undefined): string | null {
+  if (!authHeader) {
+    return null;
+  }
+
+  const parts = authHeader.trim().split(/\s+/);
+  if (parts.length !== 2 || parts[0].toLowerCase() !== 'bearer' || !parts[1]) {
+    return null;
+  }
+
+  return parts[1];
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Verify a Supabase access token (JWT) against the auth server
+ * @param token - The access token from the client session
+ * @returns {Promise<ApiAuthResult>} The verified identity or an auth error
+ */
+async function verifySessionToken(token: string): Promise<ApiAuthResult> {
+  const { data, error } = await supabaseAdmin.auth.getUser(token);
+
+  if (error || !data.user) {
+    return { ok: false, status: 401, error: 'Invalid or expired access token' };
+  }
+
+  return {
+    ok: true,
+    identity: {
+      userId: data.user.id,
+      email: data.user.email,
+      method: 'session',
+    },
+  };
+}
+
+/**
+ * Verify a per-user extension API key
+ * @param key - The plaintext key from the Authorization header
+ * @returns {Promise<ApiAuthResult>} The key owner's identity or an auth error
+ */
+async function verifyExtensionKeyToken(key: string): Promise<ApiAuthResult> {
+  const result = await verifyExtensionKey(key);
+
+  if (result === 'revoked') {
+    return { ok: false, status: 401, error: 'Extension key has been revoked' };
+  }
+  if (!result) {
+    return { ok: false, status: 401, error: 'Invalid extension key' };
+  }
+
+  return {
+    ok: true,
+    identity: {
+      userId: result.userId,
+      method: 'extension_key',
+      keyId: result.keyId,
+    },
+  };
+}
+
+/**
+ * Verify an extension access token issued by the handoff flow
+ * @param token - The plaintext access token from the Authorization header
+ * @param scope - Scope the route requires, if any
+ * @returns {Promise<ApiAuthResult>} The token owner's identity or an auth error
+ */
+async function verifyExtensionTokenCredential(token: string, scope?: ExtensionScope): Promise<ApiAuthResult> {
+  const result = await verifyExtensionAccessToken(token);
+
+  if (result === 'revoked') {
+    return { ok: false, status: 401, error: 'Extension token has been revoked' };
+  }
+  if (result === 'expired') {
+    return { ok: false, status: 401, error: 'Extension token has expired' };
+  }
+  if (!result) {
+    return { ok: false, status: 401, error: 'Invalid extension token' };
+  }
+  if (scope && !result.scopes.includes(scope)) {
+    return { ok: false, status: 403, error: `Extension token lacks the ${scope} scope` };
+  }
+
+  return {
+    ok: true,
+    identity: {
+      userId: result.userId,
+      method: 'extension_token',
+      tokenId: result.tokenId,
+    },
+  };
+}
+
+/**
+ * Authenticate an API request from its Authorization header.
+ *
+ * The user ID is always taken from the verified credential; routes must not
+ * trust any user ID sent in the header or body.
+ *
+ * @param req - The incoming API request
+ * @param options - Which credential types the route accepts
+ * @returns {Promise<ApiAuthResult>} The verified identity or an auth error
+ */
+export async function authenticateRequest(
+  req: NextApiRequest,
+  options: AuthenticateOptions = {}
+): Promise<ApiAuthResult> {
+  const { allowExtensionKey = false, scope } = options;
+
+  const token = getBearerToken(req.headers.authorization);
+  if (!token) {
+    return { ok: false, status: 401, error: 'Invalid or missing Authorization header' };
+  }
+
+  try {
+    if (isExtensionKey(token)) {
+      if (!allowExtensionKey) {
+        return { ok: false, status: 403, error: 'Extension keys cannot be used for this endpoint' };
+      }
+      return await verifyExtensionKeyToken(token);
+    }
+
+    if (isExtensionAccessToken(token)) {
+      if (!allowExtensionKey) {
+        return { ok: false, status: 403, error: 'Extension tokens cannot be used for this endpoint' };
+      }
+      return await verifyExtensionTokenCredential(token, scope);
+    }
+
+    return await verifySessionToken(token);
+  } catch (error) {
+    console.error('Error verifying credential:', error);
+    return { ok: false, status: 401, error: 'Unable to verify credentials' };
+  }
+}
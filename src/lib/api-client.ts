@@ -0,0 +1,30 @@
+import { supabase } from '@/lib/supabase';
+
+// ============================================================================
+// AUTHENTICATED API REQUESTS (BROWSER)
+// ============================================================================
+
+/**
+ * Call one of our own API routes with the current session's access token.
+ *
+ * API routes verify the token on the server (see src/lib/api-auth.ts), so
+ * pages should use this instead of plain fetch for anything user-specific.
+ * JSON bodies get a Content-Type header automatically.
+ *
+ * @param input - API path, e.g. '/api/extension-keys'
+ * @param init - Standard fetch options
+ * @returns {Promise<Response>} The fetch response
+ */
+export async function authorizedFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers = new Headers(init.headers);
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+  if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,52 @@
+import type { NextApiRequest } from 'next';
+
+/**
+ * Base URL of the site for building absolute redirect URLs on the server
+ * (Stripe success/cancel/return URLs and the like).
+ *
+ * Uses NEXT_PUBLIC_APP_URL when set, otherwise the request's own host.
+ *
+ * @param req - The incoming API request
+ * @returns {string} Base URL without a trailing slash
+ */
+export function getAppUrl(req: NextApiRequest): string {
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    return process.env.NEXT_PUBLIC_APP_URL.replace(/\/+$/, '');
+  }
+
+  const forwardedProto = req.headers['x-forwarded-proto'];
+  const proto = (Array.isArray(forwardedProto) ? forwardedProto[0] : forwardedProto) || 'http';
+  return `${proto.split(',')[0]}://${req.headers.host}`;
+}
+
+/**
+ * Validate a post-login redirect target such as the `next` query parameter.
+ * Only same-site paths are allowed, so the parameter can't be used to send
+ * users to another site.
+ *
+ * Browsers strip tabs and newlines from URLs and treat a backslash like "/", so
+ * paths containing control characters or backslashes are refused outright.
+ * What's left is resolved against this site's origin and must stay on it.
+ *
+ * @param next - Requested path, e.g. from router.query.next
+ * @param fallback - Where to go when `next` is missing or unsafe
+ * @returns {string} A path starting with a single "/"
+ */
+export function getSafeRedirectPath(next: string | string[] | undefined, fallback = '/dashboard'): string {
+  const path = Array.isArray(next) ? next[0] : next;
+  if (!path || !path.startsWith('/') || /[\u0000-\u001f\u007f\\]/.test(path)) {
+    return fallback;
+  }
+
+  const origin = typeof window === 'undefined' ? 'http://localhost' : window.location.origin;
+  let url: URL;
+  try {
+    url = new URL(path, origin);
+  } catch {
+    return fallback;
+  }
+  if (url.origin !== origin) {
+    return fallback;
+  }
+  return `${url.pathname}${url.search}${url.hash}`;
+}
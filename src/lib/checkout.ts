@@ -0,0 +1,41 @@
+import { supabase } from '@/lib/supabase';
+import { authorizedFetch } from '@/lib/api-client';
+
+// ============================================================================
+// STRIPE CHECKOUT (BROWSER)
+// ============================================================================
+
+/**
+ * Send the current user to Stripe Checkout for Founding Member access.
+ *
+ * Visitors without a session are sent to signup first, and users who
+ * already have access are sent to the dashboard. Otherwise the browser is
+ * redirected to a Checkout Session created by our API.
+ *
+ * @throws {Error} If the checkout session could not be created
+ */
+export async function startCheckout(): Promise<void> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    window.location.assign('/signup?plan=founding');
+    return;
+  }
+
+  const response = await authorizedFetch('/api/stripe/create-checkout-session', { method: 'POST' });
+
+  if (response.status === 401) {
+    window.location.assign('/login');
+    return;
+  }
+  if (response.status === 409) {
+    window.location.assign('/dashboard');
+    return;
+  }
+
+  const result = await response.json();
+  if (!response.ok || !result.url) {
+    throw new Error(result.error || 'Failed to start checkout');
+  }
+
+  window.location.assign(result.url);
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Chrome extension ID (see chrome://extensions); overridable for dev builds
+const EXTENSION_ID = process.env.NEXT_PUBLIC_EXTENSION_ID || 'oeoabefdhedmaeoghdmbcechbiepmfpc';
+
+/**
+ * Origins allowed to call extension-facing API routes from a browser:
+ * the Chrome extension and the site itself.
+ * @returns {string[]} Allowed origins
+ */
+export function getAllowedOrigins(): string[] {
+  const origins = [`chrome-extension://${EXTENSION_ID}`];
+
+  if (process.env.NEXT_PUBLIC_APP_URL) {
+    origins.push(new URL(process.env.NEXT_PUBLIC_APP_URL).origin);
+  }
+  if (process.env.NODE_ENV === 'development') {
+    origins.push('http://localhost:3000');
+  }
+
+  return origins;
+}
+
+// ============================================================================
+// CORS HANDLING
+// ============================================================================
+
+/**
+ * Apply CORS headers for an allow-listed origin and answer preflight requests.
+ *
+ * Requests from other origins get no Access-Control-Allow-Origin header, so
+ * browsers block them; server-to-server calls (no Origin) are unaffected.
+ *
+ * @param req - The incoming API request
+ * @param res - The API response
+ * @param methods - Methods the route accepts, e.g. ['GET', 'POST']
+ * @returns {boolean} True if this was a preflight request and has been answered
+ */
+export function handleCors(req: NextApiRequest, res: NextApiResponse, methods: string[]): boolean {
+  const origin = req.headers.origin;
+  const allowed = !!origin && getAllowedOrigins().includes(origin);
+
+  res.setHeader('Vary', 'Origin');
+  if (allowed) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, If-None-Match');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag, Retry-After');
+    res.setHeader('Access-Control-Max-Age', '600');
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.status(allowed ? 204 : 403).end();
+    return true;
+  }
+
+  return false;
+}
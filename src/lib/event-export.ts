@@ -0,0 +1,129 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import type { EventType } from '@/lib/events';
+
+// ============================================================================
+// EVENT HISTORY EXPORT
+// ============================================================================
+// Server-only. Reads a user's event_logs in pages using keyset pagination
+// on (created_at, id), so each query stays fast however long the history
+// is, and formats rows as CSV or JSON for streaming to the client.
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Rows fetched per query
+const PAGE_SIZE = 1000;
+
+export type ExportFormat = 'csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+// Columns included in exports, in CSV column order
+const EXPORT_COLUMNS = ['id', 'event_type', 'product_id', 'session_id', 'metadata', 'created_at'] as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One exported event_logs row
+ */
+export interface ExportedEvent {
+  id: string;
+  event_type: EventType;
+  product_id: string | null;
+  session_id: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+}
+
+/**
+ * Which events to export. Omitted bounds are open-ended.
+ */
+export interface ExportFilter {
+  since?: string; // ISO timestamp, inclusive
+  until?: string; // ISO timestamp, exclusive
+  eventTypes?: EventType[];
+}
+
+// ============================================================================
+// PAGINATION
+// ============================================================================
+
+/**
+ * Yield a user's events oldest first, one page at a time
+ * @param userId - The user
+ * @param filter - Date and event type filters
+ * @returns {AsyncGenerator<ExportedEvent[]>} Pages of up to PAGE_SIZE rows
+ */
+export async function* iterateUserEvents(userId: string, filter: ExportFilter = {}): AsyncGenerator<ExportedEvent[]> {
+  let cursor: { createdAt: string; id: string } | null = null;
+
+  while (true) {
+    let query = supabaseAdmin
+      .from('event_logs')
+      .select(EXPORT_COLUMNS.join(', '))
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(PAGE_SIZE);
+
+    if (filter.since) query = query.gte('created_at', filter.since);
+    if (filter.until) query = query.lt('created_at', filter.until);
+    if (filter.eventTypes?.length) query = query.in('event_type', filter.eventTypes);
+    if (cursor) {
+      query = query.or(`created_at.gt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.gt.${cursor.id})`);
+    }
+
+    const { data, error } = await query.returns<ExportedEvent[]>();
+    if (error) {
+      throw error;
+    }
+    if (!data || data.length === 0) {
+      return;
+    }
+
+    yield data;
+
+    if (data.length < PAGE_SIZE) {
+      return;
+    }
+    const last = data[data.length - 1];
+    cursor = { createdAt: last.created_at, id: last.id };
+  }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Quote a CSV field if needed. Fields that a spreadsheet would treat as a
+ * formula are prefixed with an apostrophe.
+ */
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+
+  let text = typeof value === 'string' ? value : JSON.stringify(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV header line
+ */
+export function csvHeader(): string {
+  return `${EXPORT_COLUMNS.join(',')}\r\n`;
+}
+
+/**
+ * CSV lines for a page of events (metadata is JSON-encoded)
+ */
+export function toCsvRows(events: ExportedEvent[]): string {
+  return events
+    .map(event => `${EXPORT_COLUMNS.map(column => csvField(event[column])).join(',')}\r\n`)
+    .join('');
+}
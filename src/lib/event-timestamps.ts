@@ -0,0 +1,137 @@
+// ============================================================================
+// EVENT TIMESTAMPS
+// ============================================================================
+// Server-only. Decides when an event from the extension happened. The
+// extension stamps events with its own clock, which can be wrong, and
+// "today" and "this week" analytics go by created_at, so:
+//
+// 1. A per-batch clock offset is estimated from the batch's sentAt (the
+//    extension's clock when it sent the request) and applied to every event.
+// 2. Corrected times outside the accepted window - too far in the future
+//    or too old - are clamped (to the receive time, or the oldest time
+//    accepted) or rejected, depending on EVENT_TIMESTAMP_POLICY.
+//
+// Configuration (all optional):
+// - EVENT_TIMESTAMP_POLICY: clamp (default) | reject
+// - EVENT_MAX_AGE_DAYS: oldest accepted event, in days (default 30)
+// - EVENT_MAX_FUTURE_SECONDS: furthest accepted event in the future (default 300)
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type TimestampPolicy = 'clamp' | 'reject';
+
+const DEFAULT_MAX_AGE_DAYS = 30;
+const DEFAULT_MAX_FUTURE_SECONDS = 300;
+
+// Offsets smaller than this are network latency, not a wrong clock
+const CLOCK_SKEW_TOLERANCE_MS = 5000;
+
+// Client times outside this range are garbage, not a wrong clock, and
+// would not convert to a date (or fit a TIMESTAMPTZ column)
+const EARLIEST_CLIENT_TIME = Date.UTC(2000, 0, 1);
+const LATEST_CLIENT_TIME = Date.UTC(2100, 0, 1);
+
+/**
+ * The accepted window, from the environment
+ */
+export interface TimestampWindow {
+  policy: TimestampPolicy;
+  maxAgeMs: number;
+  maxFutureMs: number;
+}
+
+/**
+ * Read a positive number from the environment
+ */
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * The accepted timestamp window and what to do outside it
+ */
+export function getTimestampWindow(): TimestampWindow {
+  return {
+    policy: process.env.EVENT_TIMESTAMP_POLICY === 'reject' ? 'reject' : 'clamp',
+    maxAgeMs: envNumber('EVENT_MAX_AGE_DAYS', DEFAULT_MAX_AGE_DAYS) * 24 * 60 * 60 * 1000,
+    maxFutureMs: envNumber('EVENT_MAX_FUTURE_SECONDS', DEFAULT_MAX_FUTURE_SECONDS) * 1000,
+  };
+}
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * When an event happened, or why its timestamp was refused
+ */
+export type ResolvedTimestamp =
+  | { ok: true; createdAt: Date; clamped: boolean }
+  | { ok: false; reason: string };
+
+// ============================================================================
+// CLOCK OFFSET
+// ============================================================================
+
+/**
+ * Check that a client time (an event timestamp or a batch's sentAt) is a
+ * plausible date, before it is used for anything
+ * @param value - Milliseconds since epoch, as sent by the extension
+ * @returns {boolean} True if it is a number between 2000 and 2100
+ */
+export function isClientTime(value: unknown): value is number {
+  return typeof value === 'number' && value >= EARLIEST_CLIENT_TIME && value <= LATEST_CLIENT_TIME;
+}
+
+/**
+ * Estimate how far the extension's clock is behind the server's
+ * @param sentAt - The extension's clock when it sent the batch (ms since epoch), if provided
+ * @param receivedAt - The server's clock when the batch arrived (ms since epoch)
+ * @returns {number} Milliseconds to add to client timestamps (0 if unknown or within tolerance)
+ */
+export function estimateClockOffset(sentAt: number | undefined, receivedAt: number): number {
+  if (sentAt === undefined) {
+    return 0;
+  }
+  const offset = receivedAt - sentAt;
+  return Math.abs(offset) > CLOCK_SKEW_TOLERANCE_MS ? offset : 0;
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * Work out an event's created_at from its client timestamp
+ * @param timestamp - The event's client timestamp (ms since epoch)
+ * @param offsetMs - The batch's clock offset from estimateClockOffset
+ * @param receivedAt - When the batch arrived (ms since epoch)
+ * @param bounds - The accepted window (default: from the environment)
+ * @returns {ResolvedTimestamp} The corrected time, or why it was rejected
+ */
+export function resolveEventTimestamp(
+  timestamp: number,
+  offsetMs: number,
+  receivedAt: number,
+  bounds: TimestampWindow = getTimestampWindow()
+): ResolvedTimestamp {
+  const corrected = timestamp + offsetMs;
+  const earliest = receivedAt - bounds.maxAgeMs;
+  const latest = receivedAt + bounds.maxFutureMs;
+
+  if (corrected >= earliest && corrected <= latest) {
+    return { ok: true, createdAt: new Date(corrected), clamped: false };
+  }
+
+  if (bounds.policy === 'reject') {
+    return {
+      ok: false,
+      reason: corrected > latest ? 'timestamp is in the future' : `timestamp is more than ${Math.round(bounds.maxAgeMs / 86400000)} days old`,
+    };
+  }
+  // Events can't have happened after they arrived, nor before the window opens
+  return { ok: true, createdAt: new Date(corrected > latest ? receivedAt : earliest), clamped: true };
+}
@@ -0,0 +1,192 @@
+// ============================================================================
+// EXTENSION EVENT TYPES
+// ============================================================================
+// Event types the extension sends to /api/events. Must match the CHECK
+// constraint on event_logs.event_type (docs/sql/create_event_logs_table.sql).
+// Safe to import from both browser and server code.
+
+export const EVENT_TYPES = [
+  'user_active',
+  'session_start',
+  'session_end',
+  'product_sourced',
+  'buy_gauge_viewed',
+  'variations_viewed',
+  'pricing_modified',
+  'export_all_clicked',
+  'export_filtered_clicked',
+  'settings_opened',
+  'settings_saved'
+] as const;
+
+export type EventType = typeof EVENT_TYPES[number];
+
+/**
+ * Check whether a string is a known event type
+ */
+export function isEventType(value: unknown): value is EventType {
+  return typeof value === 'string' && (EVENT_TYPES as readonly string[]).includes(value);
+}
+
+// ============================================================================
+// METADATA SCHEMAS
+// ============================================================================
+// The metadata each event type carries. /api/events rejects events whose
+// metadata doesn't match, with an error per field. Fields not listed are
+// stored as sent, so newer extension versions can add data before the
+// schema knows about it.
+
+type FieldType = 'number' | 'integer' | 'string' | 'boolean';
+
+interface FieldSchema {
+  type: FieldType;
+  required?: boolean;
+  min?: number; // Numbers only
+  max?: number; // Numbers: largest value; strings: longest length
+}
+
+type MetadataSchema = Record<string, FieldSchema>;
+
+export const EVENT_METADATA_SCHEMAS = {
+  user_active: {},
+  session_start: {},
+  session_end: {
+    sessionLength: { type: 'number', required: true, min: 0, max: 1440 } // Minutes
+  },
+  product_sourced: {
+    title: { type: 'string', max: 500 },
+    price: { type: 'number', min: 0 },
+    profit: { type: 'number' },
+    roi: { type: 'number' } // Percent
+  },
+  buy_gauge_viewed: {},
+  variations_viewed: {
+    variationCount: { type: 'integer', min: 0 }
+  },
+  pricing_modified: {
+    oldPrice: { type: 'number', required: true, min: 0 },
+    newPrice: { type: 'number', required: true, min: 0 }
+  },
+  export_all_clicked: {
+    productCount: { type: 'integer', required: true, min: 0 }
+  },
+  export_filtered_clicked: {
+    productCount: { type: 'integer', required: true, min: 0 }
+  },
+  settings_opened: {},
+  settings_saved: {}
+} as const satisfies Record<EventType, MetadataSchema>;
+
+// ============================================================================
+// METADATA TYPES
+// ============================================================================
+// Derived from EVENT_METADATA_SCHEMAS, so the types can't drift from what
+// the API accepts.
+
+type FieldValue<F extends FieldSchema> =
+  F['type'] extends 'string' ? string : F['type'] extends 'boolean' ? boolean : number;
+
+type InferMetadata<S extends MetadataSchema> = {
+  [K in keyof S as S[K] extends { required: true } ? K : never]: FieldValue<S[K]>;
+} & {
+  [K in keyof S as S[K] extends { required: true } ? never : K]?: FieldValue<S[K]>;
+};
+
+/**
+ * Metadata of one event type, e.g. EventMetadata<'session_end'>
+ */
+export type EventMetadata<T extends EventType> = InferMetadata<(typeof EVENT_METADATA_SCHEMAS)[T]>;
+
+export type EventMetadataMap = { [T in EventType]: EventMetadata<T> };
+
+// ============================================================================
+// METADATA VALIDATION
+// ============================================================================
+
+/**
+ * One problem with an event's metadata
+ */
+export interface FieldError {
+  field: string; // e.g. "metadata.sessionLength"
+  message: string;
+}
+
+/**
+ * Check a value against one field's schema
+ * @returns {string | null} What's wrong, or null if it's valid
+ */
+function checkField(value: unknown, schema: FieldSchema): string | null {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return 'must be a string';
+      if (schema.max !== undefined && value.length > schema.max) return `must be at most ${schema.max} characters`;
+      return null;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return 'must be a number';
+      if (schema.type === 'integer' && !Number.isInteger(value)) return 'must be a whole number';
+      if (schema.min !== undefined && value < schema.min) return `must be at least ${schema.min}`;
+      if (schema.max !== undefined && value > schema.max) return `must be at most ${schema.max}`;
+      return null;
+  }
+}
+
+/**
+ * Validate an event's metadata against its type's schema
+ * @param eventType - A known event type
+ * @param metadata - The metadata as sent (undefined counts as empty)
+ * @returns {FieldError[]} Every problem found; empty if valid
+ */
+export function validateEventMetadata(eventType: EventType, metadata: unknown): FieldError[] {
+  if (metadata === undefined) {
+    metadata = {};
+  }
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    return [{ field: 'metadata', message: 'must be an object' }];
+  }
+
+  const values = metadata as Record<string, unknown>;
+  const schema: MetadataSchema = EVENT_METADATA_SCHEMAS[eventType];
+  const errors: FieldError[] = [];
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = values[name];
+    if (value === undefined || value === null) {
+      if (field.required) {
+        errors.push({ field: `metadata.${name}`, message: 'is required' });
+      }
+      continue;
+    }
+
+    const message = checkField(value, field);
+    if (message) {
+      errors.push({ field: `metadata.${name}`, message });
+    }
+  }
+
+  return errors;
+}
+
+// ============================================================================
+// INGESTION RESULTS
+// ============================================================================
+
+/**
+ * What happened to one event sent to /api/events:
+ * - accepted: stored
+ * - duplicate: already stored by an earlier request (same client event ID)
+ * - rejected: not stored and never will be; see reason
+ *
+ * The extension can drop accepted and duplicate events from its queue.
+ */
+export type EventResultStatus = 'accepted' | 'duplicate' | 'rejected';
+
+export interface EventResult {
+  index: number; // Position in the request's events array
+  id: string | null; // The client event ID (null if missing or malformed)
+  status: EventResultStatus;
+  reason?: string; // Set for rejected events
+  errors?: FieldError[]; // Set when the metadata failed validation
+}
@@ -0,0 +1,255 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Every extension key starts with this prefix so it can be told apart from
+// a Supabase access token in the Authorization header
+export const EXTENSION_KEY_PREFIX = 'nsp_';
+
+// Number of leading characters kept for display in the dashboard
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// Upper bound on active keys per user
+export const MAX_ACTIVE_KEYS = 10;
+
+// Skip last_used_at writes if the key was used within this window
+const LAST_USED_WRITE_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Extension key as exposed to the dashboard (never includes the hash)
+ */
+export interface ExtensionKey {
+  id: string;
+  label: string;
+  key_prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+}
+
+/**
+ * A newly issued key. `secret` is the plaintext key and is only available
+ * at creation time.
+ */
+export interface IssuedExtensionKey {
+  key: ExtensionKey;
+  secret: string;
+}
+
+const PUBLIC_COLUMNS = 'id, label, key_prefix, created_at, last_used_at, revoked_at';
+
+// ============================================================================
+// KEY MATERIAL
+// ============================================================================
+
+/**
+ * Check whether a string is a well-formed key ID (a UUID), so malformed IDs
+ * can be answered with 400 instead of reaching the database
+ * @param value - The ID from the request
+ * @returns {boolean} True if the value is a UUID
+ */
+export function isExtensionKeyId(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+/**
+ * Check whether a bearer credential looks like an extension key
+ * @param token - The bearer credential
+ * @returns {boolean} True if the token has the extension key prefix
+ */
+export function isExtensionKey(token: string): boolean {
+  return token.startsWith(EXTENSION_KEY_PREFIX);
+}
+
+/**
+ * Hash a plaintext key for storage and lookup
+ * @param key - The plaintext extension key
+ * @returns {string} SHA-256 hex digest
+ */
+export function hashExtensionKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new random key with its display prefix and hash
+ */
+function generateKeyMaterial(): { secret: string; prefix: string; hash: string } {
+  const secret = `${EXTENSION_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    secret,
+    prefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    hash: hashExtensionKey(secret),
+  };
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Look up a plaintext key and return its owner.
+ *
+ * Revoked keys are reported separately so the caller can return a specific
+ * error. Updates last_used_at at most once per LAST_USED_WRITE_INTERVAL_MS.
+ *
+ * @param key - The plaintext extension key from the Authorization header
+ * @returns The owning user and key ID, `revoked`, or null if unknown
+ */
+export async function verifyExtensionKey(
+  key: string
+): Promise<{ keyId: string; userId: string } | 'revoked' | null> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_keys')
+    .select('id, user_id, last_used_at, revoked_at')
+    .eq('key_hash', hashExtensionKey(key))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+  if (data.revoked_at) {
+    return 'revoked';
+  }
+
+  const lastUsed = data.last_used_at ? new Date(data.last_used_at).getTime() : 0;
+  if (Date.now() - lastUsed > LAST_USED_WRITE_INTERVAL_MS) {
+    const { error: touchError } = await supabaseAdmin
+      .from('extension_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', data.id);
+
+    if (touchError) {
+      console.error('Failed to update extension key last_used_at:', touchError);
+    }
+  }
+
+  return { keyId: data.id, userId: data.user_id };
+}
+
+// ============================================================================
+// KEY MANAGEMENT
+// ============================================================================
+
+/**
+ * List a user's keys, newest first
+ * @param userId - The key owner
+ * @param includeRevoked - Whether to include revoked keys (default: false)
+ * @returns {Promise<ExtensionKey[]>} The user's keys
+ */
+export async function listExtensionKeys(userId: string, includeRevoked: boolean = false): Promise<ExtensionKey[]> {
+  let query = supabaseAdmin
+    .from('extension_keys')
+    .select(PUBLIC_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (!includeRevoked) {
+    query = query.is('revoked_at', null);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw error;
+  }
+  return data || [];
+}
+
+/**
+ * Issue a new key for a user
+ * @param userId - The key owner
+ * @param label - Display name for the key
+ * @param rotatedFrom - ID of the key this one replaces, if rotating
+ * @returns {Promise<IssuedExtensionKey>} The stored key and its plaintext secret
+ */
+export async function createExtensionKey(
+  userId: string,
+  label: string,
+  rotatedFrom?: string
+): Promise<IssuedExtensionKey> {
+  const { secret, prefix, hash } = generateKeyMaterial();
+
+  const { data, error } = await supabaseAdmin
+    .from('extension_keys')
+    .insert({
+      user_id: userId,
+      label,
+      key_prefix: prefix,
+      key_hash: hash,
+      rotated_from: rotatedFrom || null,
+    })
+    .select(PUBLIC_COLUMNS)
+    .single();
+
+  if (error) {
+    throw error;
+  }
+  return { key: data, secret };
+}
+
+/**
+ * Revoke one of a user's keys
+ * @param userId - The key owner
+ * @param keyId - The key to revoke
+ * @returns {Promise<ExtensionKey | null>} The revoked key, or null if the user has no such active key
+ */
+export async function revokeExtensionKey(userId: string, keyId: string): Promise<ExtensionKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select(PUBLIC_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Replace a key with a new one carrying the same label. The replacement is
+ * created before the old key is revoked, so a failed insert leaves the
+ * user's current key working. If the old key was revoked in the meantime
+ * (e.g. by a concurrent rotation), the replacement is revoked too so a
+ * rotation never leaves two live keys behind.
+ * @param userId - The key owner
+ * @param keyId - The key to rotate
+ * @returns {Promise<IssuedExtensionKey | null>} The new key, or null if the user has no such active key
+ */
+export async function rotateExtensionKey(userId: string, keyId: string): Promise<IssuedExtensionKey | null> {
+  const { data: current, error } = await supabaseAdmin
+    .from('extension_keys')
+    .select(PUBLIC_COLUMNS)
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!current) {
+    return null;
+  }
+
+  const issued = await createExtensionKey(userId, current.label, current.id);
+
+  const revoked = await revokeExtensionKey(userId, keyId);
+  if (!revoked) {
+    await revokeExtensionKey(userId, issued.key.id);
+    return null;
+  }
+  return issued;
+}
@@ -0,0 +1,372 @@
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { hashExtensionKey } from '@/lib/extension-keys';
+
+// ============================================================================
+// EXTENSION HANDOFF TOKENS
+// ============================================================================
+// Server-only. The site never hands the extension user details directly:
+//
+// 1. The signed-in dashboard mints a one-time handoff code bound to the user
+//    (POST /api/extension/handoff) and passes it to the extension.
+// 2. The extension exchanges the code for its own access and refresh token
+//    (POST /api/extension/token, grant_type=handoff_code).
+// 3. When the access token expires, the extension trades the refresh token
+//    for a new pair (grant_type=refresh_token). Refresh tokens are rotated.
+// 4. Tokens are revoked on sign-out (POST /api/extension/revoke).
+//
+// Like extension keys, only SHA-256 hashes of codes and tokens are stored.
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Prefixes tell the credential types apart. None of them start with the
+// extension key prefix (nsp_), so isExtensionKey() never matches them.
+export const HANDOFF_CODE_PREFIX = 'nsph_';
+export const ACCESS_TOKEN_PREFIX = 'nspa_';
+export const REFRESH_TOKEN_PREFIX = 'nspr_';
+
+// Codes only have to survive the round trip to the extension
+const HANDOFF_CODE_TTL_MS = 2 * 60 * 1000;
+const ACCESS_TOKEN_TTL_MS = 60 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Every dashboard visit mints a new token; older ones beyond this are revoked
+export const MAX_ACTIVE_TOKENS = 10;
+
+/**
+ * What an extension token may be used for
+ */
+export type ExtensionScope = 'entitlements:read' | 'status:read' | 'events:write';
+
+// Scopes granted to tokens issued by the handoff flow
+export const DEFAULT_EXTENSION_SCOPES: ExtensionScope[] = ['entitlements:read', 'status:read', 'events:write'];
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * A newly minted handoff code. Single use.
+ */
+export interface HandoffCode {
+  code: string;
+  expiresAt: string; // ISO timestamp
+}
+
+/**
+ * Tokens returned to the extension by an exchange or refresh. The plaintext
+ * tokens are only available here; the database holds their hashes.
+ */
+export interface IssuedExtensionToken {
+  tokenId: string;
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: string; // Access token expiry (ISO)
+  refreshExpiresAt: string; // Refresh token expiry (ISO)
+  scopes: ExtensionScope[];
+}
+
+/**
+ * A verified access token
+ */
+export interface ExtensionTokenIdentity {
+  tokenId: string;
+  userId: string;
+  scopes: ExtensionScope[];
+}
+
+// ============================================================================
+// TOKEN MATERIAL
+// ============================================================================
+
+/**
+ * Check whether a bearer credential looks like an extension access token
+ * @param token - The bearer credential
+ * @returns {boolean} True if the token has the access token prefix
+ */
+export function isExtensionAccessToken(token: string): boolean {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+}
+
+/**
+ * Generate a random secret with the given prefix
+ */
+function generateSecret(prefix: string): string {
+  return `${prefix}${randomBytes(32).toString('base64url')}`;
+}
+
+/**
+ * ISO timestamp `ms` milliseconds from now
+ */
+function expiresIn(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+/**
+ * Fresh access/refresh pair with expiries, as stored and as returned
+ */
+function generateTokenPair() {
+  const accessToken = generateSecret(ACCESS_TOKEN_PREFIX);
+  const refreshToken = generateSecret(REFRESH_TOKEN_PREFIX);
+  const expiresAt = expiresIn(ACCESS_TOKEN_TTL_MS);
+  const refreshExpiresAt = expiresIn(REFRESH_TOKEN_TTL_MS);
+
+  return {
+    plaintext: { accessToken, refreshToken, expiresAt, refreshExpiresAt },
+    row: {
+      access_token_hash: hashExtensionKey(accessToken),
+      access_expires_at: expiresAt,
+      refresh_token_hash: hashExtensionKey(refreshToken),
+      refresh_expires_at: refreshExpiresAt,
+    },
+  };
+}
+
+// ============================================================================
+// HANDOFF
+// ============================================================================
+
+/**
+ * Mint a one-time handoff code for a signed-in user
+ * @param userId - The user the code is bound to
+ * @returns {Promise<HandoffCode>} The plaintext code and its expiry
+ */
+export async function createHandoffCode(userId: string): Promise<HandoffCode> {
+  const code = generateSecret(HANDOFF_CODE_PREFIX);
+  const expiresAt = expiresIn(HANDOFF_CODE_TTL_MS);
+
+  const { error } = await supabaseAdmin
+    .from('extension_handoff_codes')
+    .insert({
+      user_id: userId,
+      code_hash: hashExtensionKey(code),
+      expires_at: expiresAt,
+    });
+
+  if (error) {
+    throw error;
+  }
+  return { code, expiresAt };
+}
+
+/**
+ * Redeem a handoff code for a new extension token.
+ *
+ * The code is marked used in the same conditional update that checks it is
+ * unused and unexpired, so two concurrent exchanges can't both succeed.
+ *
+ * @param code - The plaintext handoff code
+ * @returns {Promise<IssuedExtensionToken | null>} New tokens, or null if the code is unknown, used or expired
+ */
+export async function exchangeHandoffCode(code: string): Promise<IssuedExtensionToken | null> {
+  const now = new Date().toISOString();
+
+  const { data, error } = await supabaseAdmin
+    .from('extension_handoff_codes')
+    .update({ used_at: now })
+    .eq('code_hash', hashExtensionKey(code))
+    .is('used_at', null)
+    .gt('expires_at', now)
+    .select('user_id')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return issueExtensionToken(data.user_id);
+}
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * Store a new token for a user and revoke any beyond MAX_ACTIVE_TOKENS
+ * @param userId - The token owner
+ * @returns {Promise<IssuedExtensionToken>} The new tokens
+ */
+async function issueExtensionToken(userId: string): Promise<IssuedExtensionToken> {
+  const { plaintext, row } = generateTokenPair();
+
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .insert({
+      user_id: userId,
+      scopes: DEFAULT_EXTENSION_SCOPES,
+      ...row,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  await pruneExtensionTokens(userId);
+
+  return { tokenId: data.id, userId, scopes: DEFAULT_EXTENSION_SCOPES, ...plaintext };
+}
+
+/**
+ * Revoke a user's oldest active tokens so at most MAX_ACTIVE_TOKENS remain.
+ * Failures are logged, not thrown: the new token is already valid.
+ */
+async function pruneExtensionTokens(userId: string): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .select('id')
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+    .range(MAX_ACTIVE_TOKENS, MAX_ACTIVE_TOKENS + 99);
+
+  if (error) {
+    console.error('Failed to list extension tokens for pruning:', error);
+    return;
+  }
+  if (!data || data.length === 0) {
+    return;
+  }
+
+  const { error: revokeError } = await supabaseAdmin
+    .from('extension_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .in('id', data.map(token => token.id));
+
+  if (revokeError) {
+    console.error('Failed to prune extension tokens:', revokeError);
+  }
+}
+
+/**
+ * Trade a refresh token for a new access/refresh pair. The old refresh
+ * token stops working as soon as the new pair is issued.
+ *
+ * @param refreshToken - The plaintext refresh token
+ * @returns {Promise<IssuedExtensionToken | null>} New tokens, or null if the refresh token is unknown, revoked or expired
+ */
+export async function refreshExtensionToken(refreshToken: string): Promise<IssuedExtensionToken | null> {
+  const { plaintext, row } = generateTokenPair();
+  const now = new Date().toISOString();
+
+  // Matching on the old hash makes the rotation atomic
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .update({ ...row, refreshed_at: now })
+    .eq('refresh_token_hash', hashExtensionKey(refreshToken))
+    .is('revoked_at', null)
+    .gt('refresh_expires_at', now)
+    .select('id, user_id, scopes')
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  return { tokenId: data.id, userId: data.user_id, scopes: data.scopes, ...plaintext };
+}
+
+/**
+ * Look up an access token and return its owner and scopes.
+ *
+ * Revoked and expired tokens are reported separately so the caller can
+ * return a specific error (an expired token should be refreshed).
+ *
+ * @param accessToken - The plaintext access token from the Authorization header
+ * @returns The token identity, `revoked`, `expired`, or null if unknown
+ */
+export async function verifyExtensionAccessToken(
+  accessToken: string
+): Promise<ExtensionTokenIdentity | 'revoked' | 'expired' | null> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .select('id, user_id, scopes, access_expires_at, revoked_at')
+    .eq('access_token_hash', hashExtensionKey(accessToken))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+  if (data.revoked_at) {
+    return 'revoked';
+  }
+  if (new Date(data.access_expires_at).getTime() <= Date.now()) {
+    return 'expired';
+  }
+
+  return { tokenId: data.id, userId: data.user_id, scopes: data.scopes };
+}
+
+// ============================================================================
+// REVOCATION
+// ============================================================================
+
+/**
+ * Revoke a single token by ID
+ * @param tokenId - The token to revoke
+ * @returns {Promise<number>} 1 if an active token was revoked, else 0
+ */
+export async function revokeExtensionToken(tokenId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return data?.length || 0;
+}
+
+/**
+ * Revoke the token a refresh token belongs to
+ * @param refreshToken - The plaintext refresh token
+ * @returns {Promise<number>} 1 if an active token was revoked, else 0
+ */
+export async function revokeExtensionTokenByRefreshToken(refreshToken: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('refresh_token_hash', hashExtensionKey(refreshToken))
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return data?.length || 0;
+}
+
+/**
+ * Revoke every active token a user has (site sign-out)
+ * @param userId - The token owner
+ * @returns {Promise<number>} How many tokens were revoked
+ */
+export async function revokeUserExtensionTokens(userId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('extension_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw error;
+  }
+  return data?.length || 0;
+}
@@ -0,0 +1,362 @@
+import { DEBUG } from '@/lib/supabase';
+import { authorizedFetch } from '@/lib/api-client';
+import type { Entitlements, PlanId } from '@/lib/plans';
+
+// ============================================================================
+// CHROME EXTENSION BRIDGE
+// ============================================================================
+// Browser-only, typed request/response channel to the NexSellPro Chrome
+// extension via chrome.runtime.sendMessage (externally_connectable).
+//
+// Every message carries the protocol version. Before anything else is sent,
+// the bridge PINGs the extension and checks that it speaks this version
+// (the handshake). Every call resolves - it never throws - with either the
+// extension's reply or the reason there was none.
+//
+// The site never sends the extension who the user is. AUTH_SUCCESS carries a
+// one-time handoff code that the extension exchanges at /api/extension/token
+// for its own token (see lib/extension-tokens.ts).
+
+// Chrome extension types
+declare global {
+  interface Window {
+    chrome?: {
+      runtime?: {
+        sendMessage?: (extensionId: string, message: unknown, callback?: (response: unknown) => void) => void;
+        lastError?: { message: string };
+      };
+    };
+  }
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Extension ID for NexSellPro Chrome extension.
+ * For development, get this from chrome://extensions after loading the extension.
+ */
+export const EXTENSION_ID = process.env.NEXT_PUBLIC_EXTENSION_ID || 'oeoabefdhedmaeoghdmbcechbiepmfpc';
+
+/**
+ * Version of the message protocol spoken by the site. Bump it when a
+ * message shape changes in a way older extensions can't handle.
+ */
+export const PROTOCOL_VERSION = 2;
+
+// How long to wait for the extension to answer
+const DEFAULT_TIMEOUT_MS = 3000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Handoff details sent with AUTH_SUCCESS
+ */
+export interface AuthSuccessData {
+  code: string; // One-time handoff code
+  expiresAt: string; // ISO timestamp; exchange the code before this
+  origin: string; // Site origin to exchange the code with
+}
+
+/**
+ * Plan details sent with PLAN_CHANGED
+ */
+export interface PlanChangedData {
+  plan: PlanId;
+  isPaid: boolean;
+  features: Entitlements['features'];
+}
+
+/**
+ * Messages the site sends to the extension
+ */
+export type BridgeMessage =
+  | { type: 'PING'; version: number }
+  | { type: 'AUTH_SUCCESS'; version: number; data: AuthSuccessData }
+  | { type: 'LOGOUT'; version: number }
+  | { type: 'PLAN_CHANGED'; version: number; data: PlanChangedData };
+
+export type BridgeMessageType = BridgeMessage['type'];
+
+/**
+ * The extension's reply to any message
+ */
+export interface BridgeReply {
+  ok: boolean;
+  error?: string;
+  /** Newest protocol version the extension speaks (PING replies) */
+  protocolVersion?: number;
+  /** Oldest protocol version the extension still accepts (PING replies) */
+  minProtocolVersion?: number;
+  /** Extension version from its manifest (PING replies) */
+  extensionVersion?: string;
+}
+
+/**
+ * Why a message got no usable reply:
+ * - unavailable: not a browser with the chrome.runtime messaging API
+ * - not_installed: Chrome reported no receiving extension
+ * - timeout: no reply within the timeout
+ * - incompatible: the extension doesn't speak PROTOCOL_VERSION
+ * - rejected: the extension replied with ok: false
+ * - invalid_reply: the reply wasn't a BridgeReply
+ * - handoff_failed: the site couldn't mint a handoff code
+ */
+export type BridgeFailureReason =
+  | 'unavailable'
+  | 'not_installed'
+  | 'timeout'
+  | 'incompatible'
+  | 'rejected'
+  | 'invalid_reply'
+  | 'handoff_failed';
+
+export type BridgeResult =
+  | { ok: true; reply: BridgeReply }
+  | { ok: false; reason: BridgeFailureReason; error?: string };
+
+export interface BridgeOptions {
+  /** Milliseconds to wait for a reply (default: 3000) */
+  timeoutMs?: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Log debug messages only in development mode
+ */
+function debugLog(message: string, data?: unknown): void {
+  if (DEBUG) {
+    console.log(`[NexSellPro] ${message}`, data ?? '');
+  }
+}
+
+/**
+ * The chrome.runtime messaging API, if this page can reach extensions
+ */
+function getRuntime() {
+  if (typeof window === 'undefined') return null;
+  const runtime = window.chrome?.runtime;
+  return runtime?.sendMessage ? runtime : null;
+}
+
+function isBridgeReply(value: unknown): value is BridgeReply {
+  return !!value && typeof value === 'object' && typeof (value as BridgeReply).ok === 'boolean';
+}
+
+/**
+ * Check whether an extension's advertised versions include ours
+ * @param reply - The extension's PING reply
+ * @returns {boolean} True if the extension accepts PROTOCOL_VERSION
+ */
+export function isCompatible(reply: BridgeReply): boolean {
+  const newest = reply.protocolVersion;
+  if (typeof newest !== 'number') return false;
+
+  const oldest = typeof reply.minProtocolVersion === 'number' ? reply.minProtocolVersion : newest;
+  return oldest <= PROTOCOL_VERSION && PROTOCOL_VERSION <= newest;
+}
+
+// ============================================================================
+// TRANSPORT
+// ============================================================================
+
+/**
+ * Send one message and wait for the reply. Does not handshake first; use
+ * the typed helpers below unless you are implementing the handshake.
+ *
+ * @param message - The message to send
+ * @param options - Timeout options
+ * @returns {Promise<BridgeResult>} The reply, or why there wasn't one
+ */
+export function sendBridgeMessage(message: BridgeMessage, options: BridgeOptions = {}): Promise<BridgeResult> {
+  const runtime = getRuntime();
+  if (!runtime) {
+    return Promise.resolve({ ok: false, reason: 'unavailable' });
+  }
+
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const finish = (result: BridgeResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      debugLog(`Extension ${message.type}:`, result);
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => finish({ ok: false, reason: 'timeout' }), timeoutMs);
+
+    try {
+      runtime.sendMessage!(EXTENSION_ID, message, (response) => {
+        // Reading lastError marks it as handled, so Chrome doesn't log it
+        const lastError = runtime.lastError;
+        if (lastError) {
+          finish({ ok: false, reason: 'not_installed', error: lastError.message });
+        } else if (!isBridgeReply(response)) {
+          finish({ ok: false, reason: 'invalid_reply' });
+        } else if (!response.ok) {
+          finish({ ok: false, reason: 'rejected', error: response.error });
+        } else {
+          finish({ ok: true, reply: response });
+        }
+      });
+    } catch (error) {
+      // sendMessage throws synchronously for an invalid extension ID
+      finish({
+        ok: false,
+        reason: 'not_installed',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+}
+
+// ============================================================================
+// HANDSHAKE
+// ============================================================================
+
+// One handshake per page load; failed handshakes are retried next time
+let handshakePromise: Promise<BridgeResult> | null = null;
+
+/**
+ * PING the extension and check that it speaks our protocol version.
+ * The result is cached for the page unless it fails.
+ *
+ * @param options - Timeout options
+ * @returns {Promise<BridgeResult>} The PING reply, or why the extension can't be used
+ */
+export function handshake(options: BridgeOptions = {}): Promise<BridgeResult> {
+  if (!handshakePromise) {
+    handshakePromise = sendBridgeMessage({ type: 'PING', version: PROTOCOL_VERSION }, options)
+      .then((result): BridgeResult => {
+        if (result.ok && !isCompatible(result.reply)) {
+          return {
+            ok: false,
+            reason: 'incompatible',
+            error: `Extension speaks protocol ${result.reply.minProtocolVersion ?? result.reply.protocolVersion}-${result.reply.protocolVersion}, site speaks ${PROTOCOL_VERSION}`
+          };
+        }
+        return result;
+      })
+      .then((result) => {
+        if (!result.ok) handshakePromise = null;
+        return result;
+      });
+  }
+
+  return handshakePromise;
+}
+
+/**
+ * Forget the cached handshake (e.g. after the extension was installed)
+ */
+export function resetHandshake(): void {
+  handshakePromise = null;
+}
+
+/**
+ * Handshake, then send a message
+ */
+async function sendAfterHandshake(message: BridgeMessage, options: BridgeOptions): Promise<BridgeResult> {
+  const connected = await handshake(options);
+  if (!connected.ok) {
+    return connected;
+  }
+  return sendBridgeMessage(message, options);
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Check if the Chrome extension is installed and speaks our protocol
+ * @returns {Promise<boolean>} True if the extension answered the handshake
+ */
+export async function checkExtensionInstalled(options: BridgeOptions = {}): Promise<boolean> {
+  const result = await handshake(options);
+  return result.ok;
+}
+
+/**
+ * Share the site's login with the extension: mint a one-time handoff code
+ * for the signed-in user and send it to the extension to exchange.
+ *
+ * No code is minted unless the extension answers the handshake.
+ *
+ * @returns {Promise<BridgeResult>} Whether the extension accepted the code
+ */
+export async function syncAuthWithExtension(options: BridgeOptions = {}): Promise<BridgeResult> {
+  const connected = await handshake(options);
+  if (!connected.ok) {
+    return connected;
+  }
+
+  let handoff: { code: string; expiresAt: string };
+  try {
+    const response = await authorizedFetch('/api/extension/handoff', { method: 'POST' });
+    const result = await response.json();
+    if (!response.ok || !result.code) {
+      return { ok: false, reason: 'handoff_failed', error: result.error || `HTTP ${response.status}` };
+    }
+    handoff = { code: result.code, expiresAt: result.expiresAt };
+  } catch (error) {
+    return {
+      ok: false,
+      reason: 'handoff_failed',
+      error: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  return sendBridgeMessage({
+    type: 'AUTH_SUCCESS',
+    version: PROTOCOL_VERSION,
+    data: { ...handoff, origin: window.location.origin }
+  }, options);
+}
+
+/**
+ * Sign the extension out: revoke the user's extension tokens on the server,
+ * then tell the extension to clear its auth state. Call this before the
+ * site session ends - the revoke request is authorized with it.
+ *
+ * @returns {Promise<BridgeResult>} Whether the extension acknowledged
+ */
+export async function notifyExtensionLogout(options: BridgeOptions = {}): Promise<BridgeResult> {
+  // Revoke even if the extension can't be reached right now
+  try {
+    const response = await authorizedFetch('/api/extension/revoke', { method: 'POST' });
+    if (!response.ok) {
+      console.error('Failed to revoke extension tokens:', response.status);
+    }
+  } catch (error) {
+    console.error('Failed to revoke extension tokens:', error);
+  }
+
+  return sendAfterHandshake({ type: 'LOGOUT', version: PROTOCOL_VERSION }, options);
+}
+
+/**
+ * Tell the extension the user's plan changed so it can re-gate features
+ * @param entitlements - The user's current entitlements
+ * @returns {Promise<BridgeResult>} Whether the extension acknowledged
+ */
+export function notifyPlanChanged(entitlements: Entitlements, options: BridgeOptions = {}): Promise<BridgeResult> {
+  return sendAfterHandshake({
+    type: 'PLAN_CHANGED',
+    version: PROTOCOL_VERSION,
+    data: {
+      plan: entitlements.plan,
+      isPaid: entitlements.isPaid,
+      features: entitlements.features
+    }
+  }, options);
+}
@@ -0,0 +1,186 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+
+// ============================================================================
+// ONBOARDING PROGRESS
+// ============================================================================
+// Server-only. Tracks how far each user has got through the dashboard's
+// "Get Started" steps. Each step is stored as the time it was first
+// completed and never cleared, so the dashboard can show progress even when
+// the extension can't be reached from the current browser.
+//
+// Who records each step:
+// - extension_installed: the dashboard, after the extension answers PING
+// - extension_synced: /api/extension/token, when a handoff code is redeemed,
+//   and /api/events, when an extension key is used
+// - first_product_sourced: /api/events, when a product_sourced event arrives
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type OnboardingStep = 'extension_installed' | 'extension_synced' | 'first_product_sourced';
+
+/**
+ * A user's onboarding progress. Timestamps are ISO strings, null until the
+ * step is completed.
+ */
+export interface OnboardingState {
+  extensionInstalledAt: string | null;
+  extensionSyncedAt: string | null;
+  firstProductSourcedAt: string | null;
+  extensionVersion: string | null; // Last version reported by PING
+  completed: boolean; // Every step is done
+}
+
+// Column holding each step's completion time
+const STEP_COLUMNS: Record<OnboardingStep, string> = {
+  extension_installed: 'extension_installed_at',
+  extension_synced: 'extension_synced_at',
+  first_product_sourced: 'first_product_sourced_at',
+};
+
+export const ONBOARDING_STEPS = Object.keys(STEP_COLUMNS) as OnboardingStep[];
+
+// Steps this server instance has seen recorded, as "<userId>:<step>". Steps
+// are never cleared, so callers on hot paths (every event batch) only write
+// until the step is known to be done.
+const recordedSteps = new Set<string>();
+const MAX_REMEMBERED_STEPS = 10000;
+
+const EMPTY_STATE: OnboardingState = {
+  extensionInstalledAt: null,
+  extensionSyncedAt: null,
+  firstProductSourcedAt: null,
+  extensionVersion: null,
+  completed: false,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a string is a known onboarding step
+ */
+export function isOnboardingStep(value: unknown): value is OnboardingStep {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(STEP_COLUMNS, value);
+}
+
+/**
+ * Convert a user_onboarding row to the API shape
+ */
+function toState(row: {
+  extension_installed_at: string | null;
+  extension_synced_at: string | null;
+  first_product_sourced_at: string | null;
+  extension_version: string | null;
+}): OnboardingState {
+  return {
+    extensionInstalledAt: row.extension_installed_at,
+    extensionSyncedAt: row.extension_synced_at,
+    firstProductSourcedAt: row.first_product_sourced_at,
+    extensionVersion: row.extension_version,
+    completed: !!(row.extension_installed_at && row.extension_synced_at && row.first_product_sourced_at),
+  };
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/**
+ * Load a user's onboarding progress
+ * @param userId - The user
+ * @returns {Promise<OnboardingState>} Progress so far (all steps pending if none recorded)
+ */
+export async function getOnboardingState(userId: string): Promise<OnboardingState> {
+  const { data, error } = await supabaseAdmin
+    .from('user_onboarding')
+    .select('extension_installed_at, extension_synced_at, first_product_sourced_at, extension_version')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+  return data ? toState(data) : { ...EMPTY_STATE };
+}
+
+/**
+ * Mark a step complete. The first completion time is kept; repeat calls
+ * only update the extension version, if one is given.
+ *
+ * Recording a step takes one conditional update while it is pending (the
+ * row is created if the user has none), and no query at all once this
+ * instance has seen it recorded.
+ *
+ * @param userId - The user
+ * @param step - The step that was completed
+ * @param extensionVersion - Extension version reported by PING, if known
+ */
+export async function recordOnboardingStep(
+  userId: string,
+  step: OnboardingStep,
+  extensionVersion?: string | null
+): Promise<void> {
+  const now = new Date().toISOString();
+  const column = STEP_COLUMNS[step];
+  const recordedKey = `${userId}:${step}`;
+
+  if (!recordedSteps.has(recordedKey)) {
+    const { data: updated, error: stepError } = await supabaseAdmin
+      .from('user_onboarding')
+      .update({ [column]: now, updated_at: now })
+      .eq('user_id', userId)
+      .is(column, null)
+      .select('user_id');
+
+    if (stepError) {
+      throw stepError;
+    }
+
+    // Nothing pending: either the step is already recorded or the user has
+    // no row yet. Create the row with the step, leaving an existing one alone.
+    if (!updated || updated.length === 0) {
+      const { error: insertError } = await supabaseAdmin
+        .from('user_onboarding')
+        .upsert({ user_id: userId, [column]: now }, { onConflict: 'user_id', ignoreDuplicates: true });
+
+      if (insertError) {
+        throw insertError;
+      }
+    }
+
+    if (recordedSteps.size >= MAX_REMEMBERED_STEPS) {
+      recordedSteps.clear();
+    }
+    recordedSteps.add(recordedKey);
+  }
+
+  if (extensionVersion) {
+    const { error: versionError } = await supabaseAdmin
+      .from('user_onboarding')
+      .update({ extension_version: extensionVersion, updated_at: now })
+      .eq('user_id', userId);
+
+    if (versionError) {
+      throw versionError;
+    }
+  }
+}
+
+/**
+ * recordOnboardingStep for callers whose own work has already succeeded:
+ * failures are logged instead of thrown
+ */
+export async function tryRecordOnboardingStep(
+  userId: string,
+  step: OnboardingStep,
+  extensionVersion?: string | null
+): Promise<void> {
+  try {
+    await recordOnboardingStep(userId, step, extensionVersion);
+  } catch (error) {
+    console.error(`Failed to record onboarding step ${step}:`, error);
+  }
+}
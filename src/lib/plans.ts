@@ -0,0 +1,285 @@
+// ============================================================================
+// PLAN CATALOG
+// ============================================================================
+// Single source of truth for plans: names, prices, Stripe prices, feature
+// entitlements and whether a plan counts as paid. Safe to import from both
+// browser and server code - Stripe price IDs are referenced by environment
+// variable name and only resolved on the server (see lib/stripe.ts).
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Plan identifiers stored in user_plan.plan
+ */
+export type PlanId = 'free' | 'premium' | 'enterprise' | 'beta' | 'founding';
+
+/**
+ * Features a plan can unlock in the extension
+ */
+export type FeatureId =
+  | 'product_overview'
+  | 'profit_calculator'
+  | 'basic_analysis'
+  | 'buy_gauge'
+  | 'advanced_analysis'
+  | 'advanced_filters'
+  | 'sheets_export'
+  | 'product_variations'
+  | 'listing_export';
+
+/**
+ * Usage limits a plan grants. null means unlimited.
+ */
+export interface PlanLimits {
+  dailyAnalyses: number | null; // Products the extension may analyze per day
+}
+
+/**
+ * Everything a user's plan grants, as returned by /api/entitlements. The
+ * extension gates features on `features` and enforces `limits`.
+ */
+export interface Entitlements {
+  plan: PlanId;
+  planName: string;
+  status: string;
+  isPaid: boolean;
+  features: Record<FeatureId, boolean>;
+  limits: PlanLimits;
+}
+
+export interface FeatureDefinition {
+  id: FeatureId;
+  name: string;
+  description: string;
+}
+
+/**
+ * What a plan costs. Amounts are in cents.
+ */
+export interface PlanPrice {
+  amount: number;
+  compareAtAmount?: number; // Regular price, shown struck through
+  currency: 'usd';
+  billing: 'one_time' | 'monthly';
+}
+
+export interface PlanDefinition {
+  id: PlanId;
+  name: string;
+  description: string;
+  price: PlanPrice | null; // null when the plan can't be bought
+  // Environment variables holding the Stripe price ID for live and test mode
+  stripePriceEnv: { live: string; test: string } | null;
+  isPaid: boolean;
+  features: FeatureId[];
+  limits: PlanLimits;
+  highlights: string[]; // Marketing bullet points for the pricing card
+}
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+export const FEATURES: Record<FeatureId, FeatureDefinition> = {
+  product_overview: {
+    id: 'product_overview',
+    name: 'Product Overview',
+    description: 'Basic product information and pricing'
+  },
+  profit_calculator: {
+    id: 'profit_calculator',
+    name: 'Profit Calculator',
+    description: 'Calculate profit margins and ROI'
+  },
+  basic_analysis: {
+    id: 'basic_analysis',
+    name: 'Basic Analysis',
+    description: 'Limited competition data'
+  },
+  buy_gauge: {
+    id: 'buy_gauge',
+    name: 'Buy Gauge',
+    description: 'Proprietary scoring system'
+  },
+  advanced_analysis: {
+    id: 'advanced_analysis',
+    name: 'Advanced Analysis',
+    description: 'Complete competition breakdown'
+  },
+  advanced_filters: {
+    id: 'advanced_filters',
+    name: 'Advanced Filters',
+    description: 'Filter by profit, ROI, sellers and more'
+  },
+  sheets_export: {
+    id: 'sheets_export',
+    name: 'Google Sheets Export',
+    description: 'One-click data export'
+  },
+  product_variations: {
+    id: 'product_variations',
+    name: 'Product Variations',
+    description: 'Analyze all product variants'
+  },
+  listing_export: {
+    id: 'listing_export',
+    name: 'Listing Export',
+    description: 'Export optimized listings'
+  }
+};
+
+const FREE_FEATURES: FeatureId[] = ['product_overview', 'profit_calculator', 'basic_analysis'];
+
+const PREMIUM_FEATURES: FeatureId[] = [
+  'buy_gauge',
+  'advanced_analysis',
+  'advanced_filters',
+  'sheets_export',
+  'product_variations',
+  'listing_export'
+];
+
+const ALL_FEATURES: FeatureId[] = [...FREE_FEATURES, ...PREMIUM_FEATURES];
+
+const FREE_LIMITS: PlanLimits = { dailyAnalyses: 25 };
+
+const UNLIMITED: PlanLimits = { dailyAnalyses: null };
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export const PLANS: Record<PlanId, PlanDefinition> = {
+  free: {
+    id: 'free',
+    name: 'Free Plan',
+    description: 'Basic features available - upgrade for full access',
+    price: null,
+    stripePriceEnv: null,
+    isPaid: false,
+    features: FREE_FEATURES,
+    limits: FREE_LIMITS,
+    highlights: []
+  },
+  founding: {
+    id: 'founding',
+    name: 'Founding Member',
+    description: 'Full access to all features until launch',
+    price: { amount: 2900, compareAtAmount: 9900, currency: 'usd', billing: 'one_time' },
+    stripePriceEnv: { live: 'STRIPE_FOUNDING_PRICE_ID', test: 'TEST_STRIPE_FOUNDING_PRICE_ID' },
+    isPaid: true,
+    features: ALL_FEATURES,
+    limits: UNLIMITED,
+    highlights: [
+      'Full access until launch (min two months)',
+      'All current & future features',
+      'Priority support & training',
+      'Direct line to the founder',
+      'Vote on new features',
+      'Founding member discount codes',
+      'Referral bonus opportunities'
+    ]
+  },
+  beta: {
+    id: 'beta',
+    name: 'Beta Tester',
+    description: 'Full access while helping us test new features',
+    price: null,
+    stripePriceEnv: null,
+    isPaid: false,
+    features: ALL_FEATURES,
+    limits: UNLIMITED,
+    highlights: []
+  },
+  premium: {
+    id: 'premium',
+    name: 'Premium',
+    description: 'Full access to all features',
+    price: null,
+    stripePriceEnv: null,
+    isPaid: true,
+    features: ALL_FEATURES,
+    limits: UNLIMITED,
+    highlights: []
+  },
+  enterprise: {
+    id: 'enterprise',
+    name: 'Enterprise',
+    description: 'Full access for teams',
+    price: null,
+    stripePriceEnv: null,
+    isPaid: true,
+    features: ALL_FEATURES,
+    limits: UNLIMITED,
+    highlights: []
+  }
+};
+
+// Plan everyone has without paying, and the one checkout sells
+export const FREE_PLAN_ID: PlanId = 'free';
+export const DEFAULT_PAID_PLAN_ID: PlanId = 'founding';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Check whether a string is a known plan ID. Own keys only, so names like
+ * 'toString' or '__proto__' inherited from Object.prototype don't match.
+ */
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+}
+
+/**
+ * Look up a plan, falling back to the free plan for missing or unknown IDs
+ * @param planId - Plan ID as stored in user_plan.plan (case-insensitive)
+ * @returns {PlanDefinition} The plan definition
+ */
+export function getPlan(planId: string | null | undefined): PlanDefinition {
+  const id = planId?.toLowerCase();
+  return isPlanId(id) ? PLANS[id] : PLANS[FREE_PLAN_ID];
+}
+
+/**
+ * Check whether a plan counts as paid
+ */
+export function isPaidPlan(planId: string | null | undefined): boolean {
+  return getPlan(planId).isPaid;
+}
+
+/**
+ * Check whether a plan includes a feature
+ */
+export function hasFeature(planId: string | null | undefined, feature: FeatureId): boolean {
+  return getPlan(planId).features.includes(feature);
+}
+
+/**
+ * Concrete feature flags and limits for a plan, as served to the extension
+ * @param planId - Plan ID as stored in user_plan.plan
+ * @returns {{ features: Record<FeatureId, boolean>, limits: PlanLimits }} Every feature with whether the plan grants it
+ */
+export function getPlanEntitlements(planId: string | null | undefined): {
+  features: Record<FeatureId, boolean>;
+  limits: PlanLimits;
+} {
+  const plan = getPlan(planId);
+  const features = Object.fromEntries(
+    (Object.keys(FEATURES) as FeatureId[]).map(feature => [feature, plan.features.includes(feature)])
+  ) as Record<FeatureId, boolean>;
+
+  return { features, limits: { ...plan.limits } };
+}
+
+/**
+ * Format an amount in cents for display, e.g. 2900 -> "$29"
+ * @param amount - Amount in cents
+ * @returns {string} The formatted price, with cents only when needed
+ */
+export function formatAmount(amount: number): string {
+  const dollars = amount / 100;
+  return Number.isInteger(dollars) ? `$${dollars}` : `$${dollars.toFixed(2)}`;
+}
@@ -0,0 +1,130 @@
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import type { EventMetadata } from '@/lib/events';
+
+// ============================================================================
+// SOURCED PRODUCTS
+// ============================================================================
+// Server-only. The distinct products a user has analyzed, built from their
+// product_sourced events by get_user_products
+// (docs/sql/create_user_products_function.sql).
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export type ProductSort = 'last_seen' | 'first_seen' | 'view_count' | 'product_id';
+
+export const PRODUCT_SORTS: ProductSort[] = ['last_seen', 'first_seen', 'view_count', 'product_id'];
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+// Highest page accepted, so the row offset always fits get_user_products'
+// INTEGER page_offset parameter
+export const MAX_PAGE = Math.floor(2147483647 / MAX_PAGE_SIZE);
+
+// Longest search string accepted
+export const MAX_SEARCH_LENGTH = 100;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * One distinct product from a user's sourcing history
+ */
+export interface SourcedProduct {
+  productId: string;
+  firstSeenAt: string; // ISO timestamp
+  lastSeenAt: string; // ISO timestamp
+  viewCount: number;
+  latestMetadata: EventMetadata<'product_sourced'>; // As sent with the newest product_sourced event
+  walmartUrl: string;
+}
+
+export interface ProductQuery {
+  search?: string;
+  sort: ProductSort;
+  direction: 'asc' | 'desc';
+  page: number; // 1-based
+  pageSize: number;
+}
+
+/**
+ * One page of products, as returned by /api/products
+ */
+export interface ProductPage {
+  products: SourcedProduct[];
+  page: number;
+  pageSize: number;
+  total: number; // Matching products across all pages
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Walmart listing URL for a product ID
+ */
+export function walmartProductUrl(productId: string): string {
+  return `https://www.walmart.com/ip/${encodeURIComponent(productId)}`;
+}
+
+/**
+ * Escape LIKE wildcards so a search matches literally
+ */
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * One page of the distinct products a user has sourced
+ * @param userId - The user
+ * @param query - Search, sort and paging
+ * @returns {Promise<ProductPage>} The page and the total match count
+ */
+export async function getSourcedProducts(userId: string, query: ProductQuery): Promise<ProductPage> {
+  const search = query.search?.trim();
+
+  const { data, error } = await supabaseAdmin.rpc('get_user_products', {
+    user_uuid: userId,
+    search: search ? escapeLike(search) : null,
+    sort_by: query.sort,
+    sort_dir: query.direction,
+    page_limit: query.pageSize,
+    page_offset: (query.page - 1) * query.pageSize
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  const rows: {
+    product_id: string;
+    first_seen: string;
+    last_seen: string;
+    view_count: number | string;
+    latest_metadata: EventMetadata<'product_sourced'> | null;
+    total_count: number | string;
+  }[] = data || [];
+
+  return {
+    products: rows.map(row => ({
+      productId: row.product_id,
+      firstSeenAt: row.first_seen,
+      lastSeenAt: row.last_seen,
+      viewCount: Number(row.view_count),
+      latestMetadata: row.latest_metadata || {},
+      walmartUrl: walmartProductUrl(row.product_id)
+    })),
+    page: query.page,
+    pageSize: query.pageSize,
+    // Every row carries the total; an empty page means no matches past this point
+    total: rows.length > 0 ? Number(rows[0].total_count) : 0
+  };
+}
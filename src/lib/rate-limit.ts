@@ -0,0 +1,263 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import type { ApiIdentity } from '@/lib/api-auth';
+
+// ============================================================================
+// RATE LIMITING
+// ============================================================================
+// Server-only. Fixed-window request limits for the public API routes, counted
+// per route and per subject: the caller's IP address, user, extension key,
+// extension token or (for password resets) the email address asked about.
+//
+// Counters live in a pluggable store. The Postgres store
+// (docs/sql/create_rate_limits_table.sql) is shared by every server instance
+// and is the default in production; the in-memory store is for local
+// development. Set RATE_LIMIT_STORE=memory|postgres to choose explicitly.
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RateLimitedRoute = 'events' | 'check-user-status' | 'password-reset';
+
+/**
+ * What a limit is counted against
+ */
+export type RateLimitScope = 'ip' | 'user' | 'key' | 'token' | 'email';
+
+/**
+ * Requests allowed per window for each scope. Scopes left out are not limited.
+ */
+export type RateLimitRule = { windowSeconds: number } & Partial<Record<RateLimitScope, number>>;
+
+/**
+ * One subject to count a request against, e.g. { scope: 'ip', id: '203.0.113.7' }
+ */
+export interface RateLimitKey {
+  scope: RateLimitScope;
+  id: string;
+}
+
+/**
+ * Where counters are kept
+ */
+export interface RateLimitStore {
+  /**
+   * Count one hit on a bucket
+   * @returns Hits so far in the current window and when it ends (ms since epoch)
+   */
+  hit(bucket: string, windowSeconds: number): Promise<{ hits: number; resetAt: number }>;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Defaults per route. IP limits are looser than per-user ones because
+// several users can share an address. Override any of them with RATE_LIMITS,
+// a JSON object merged over these, e.g. RATE_LIMITS='{"events":{"user":240}}'
+const DEFAULT_RULES: Record<RateLimitedRoute, RateLimitRule> = {
+  events: { windowSeconds: 60, ip: 300, user: 120, key: 120, token: 120 },
+  'check-user-status': { windowSeconds: 60, ip: 120, user: 30, key: 30, token: 30 },
+  'password-reset': { windowSeconds: 3600, ip: 20, email: 5 },
+};
+
+// Entries the in-memory store holds before sweeping expired windows
+const MEMORY_SWEEP_THRESHOLD = 10000;
+
+let rules: Record<RateLimitedRoute, RateLimitRule> | null = null;
+
+/**
+ * The rules in effect: the defaults with RATE_LIMITS applied
+ */
+function getRules(): Record<RateLimitedRoute, RateLimitRule> {
+  if (rules) return rules;
+
+  rules = { ...DEFAULT_RULES };
+  if (process.env.RATE_LIMITS) {
+    try {
+      const overrides = JSON.parse(process.env.RATE_LIMITS) as Partial<Record<RateLimitedRoute, Partial<RateLimitRule>>>;
+      for (const route of Object.keys(DEFAULT_RULES) as RateLimitedRoute[]) {
+        rules[route] = { ...DEFAULT_RULES[route], ...overrides[route] };
+      }
+    } catch (error) {
+      console.error('Ignoring invalid RATE_LIMITS:', error);
+    }
+  }
+  return rules;
+}
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+/**
+ * Start of the fixed window containing `now`
+ */
+function windowStart(now: number, windowSeconds: number): number {
+  const windowMs = windowSeconds * 1000;
+  return Math.floor(now / windowMs) * windowMs;
+}
+
+/**
+ * Counters in this process's memory. Each server instance counts
+ * separately and counts are lost on restart, so use it for local
+ * development only.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const counters = new Map<string, { resetAt: number; hits: number }>();
+
+  return {
+    async hit(bucket, windowSeconds) {
+      const now = Date.now();
+      const resetAt = windowStart(now, windowSeconds) + windowSeconds * 1000;
+
+      if (counters.size >= MEMORY_SWEEP_THRESHOLD) {
+        counters.forEach((counter, key) => {
+          if (counter.resetAt <= now) counters.delete(key);
+        });
+      }
+
+      const counter = counters.get(bucket);
+      if (counter && counter.resetAt === resetAt) {
+        counter.hits += 1;
+        return { hits: counter.hits, resetAt };
+      }
+
+      counters.set(bucket, { resetAt, hits: 1 });
+      return { hits: 1, resetAt };
+    },
+  };
+}
+
+/**
+ * Counters in the rate_limits table, shared by every server instance
+ */
+export function createPostgresStore(): RateLimitStore {
+  return {
+    async hit(bucket, windowSeconds) {
+      const { data, error } = await supabaseAdmin
+        .rpc('rate_limit_hit', { bucket_key: bucket, window_seconds: windowSeconds })
+        .single<{ hit_count: number; reset_at: string }>();
+
+      if (error || !data) {
+        throw error || new Error('rate_limit_hit returned no row');
+      }
+      return { hits: data.hit_count, resetAt: new Date(data.reset_at).getTime() };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The store in use, created on first use from RATE_LIMIT_STORE
+ */
+function getStore(): RateLimitStore {
+  if (!store) {
+    const kind = process.env.RATE_LIMIT_STORE || (process.env.NODE_ENV === 'production' ? 'postgres' : 'memory');
+    store = kind === 'memory' ? createMemoryStore() : createPostgresStore();
+  }
+  return store;
+}
+
+/**
+ * Replace the store, e.g. with one backed by Redis
+ */
+export function setRateLimitStore(replacement: RateLimitStore): void {
+  store = replacement;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+/**
+ * Key for the caller's IP address. Uses the first X-Forwarded-For entry,
+ * which the hosting proxy (Vercel) sets, falling back to the socket address.
+ */
+export function ipKey(req: NextApiRequest): RateLimitKey {
+  const forwarded = req.headers['x-forwarded-for'];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim();
+  return { scope: 'ip', id: first || req.socket.remoteAddress || 'unknown' };
+}
+
+/**
+ * Keys for an authenticated caller: the user, plus the extension key or
+ * token when one was used, so a leaked credential can't use up the whole
+ * account's allowance unnoticed
+ */
+export function identityKeys(identity: ApiIdentity): RateLimitKey[] {
+  const keys: RateLimitKey[] = [{ scope: 'user', id: identity.userId }];
+  if (identity.keyId) {
+    keys.push({ scope: 'key', id: identity.keyId });
+  }
+  if (identity.tokenId) {
+    keys.push({ scope: 'token', id: identity.tokenId });
+  }
+  return keys;
+}
+
+/**
+ * Key for an email address a request is about (case-insensitive)
+ */
+export function emailKey(email: string): RateLimitKey {
+  return { scope: 'email', id: email.trim().toLowerCase() };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Count a request against each key's limit for the route. If any limit is
+ * exceeded, respond 429 with a Retry-After header.
+ *
+ * If the store fails the request is allowed, so an outage of the counter
+ * store doesn't take the API down with it.
+ *
+ * @param res - The API response
+ * @param route - Which route's limits apply
+ * @param keys - Subjects to count the request against
+ * @returns {Promise<boolean>} True if the request may proceed; false if a 429 has been sent
+ */
+export async function enforceRateLimit(
+  res: NextApiResponse,
+  route: RateLimitedRoute,
+  keys: RateLimitKey[]
+): Promise<boolean> {
+  const rule = getRules()[route];
+  const limited = keys.filter(key => rule[key.scope] !== undefined);
+  if (limited.length === 0) {
+    return true;
+  }
+
+  let counts: { hits: number; resetAt: number }[];
+  try {
+    counts = await Promise.all(
+      limited.map(key => getStore().hit(`${route}:${key.scope}:${key.id}`, rule.windowSeconds))
+    );
+  } catch (error) {
+    console.error(`Rate limit check failed for ${route}:`, error);
+    return true;
+  }
+
+  // Wait for the latest window to reset among the exceeded limits
+  let retryAt = 0;
+  limited.forEach((key, index) => {
+    if (counts[index].hits > rule[key.scope]!) {
+      retryAt = Math.max(retryAt, counts[index].resetAt);
+    }
+  });
+  if (retryAt === 0) {
+    return true;
+  }
+
+  const retryAfter = Math.max(1, Math.ceil((retryAt - Date.now()) / 1000));
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    error: `Too many requests. Try again in ${retryAfter} seconds.`,
+  });
+  return false;
+}
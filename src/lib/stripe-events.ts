@@ -0,0 +1,122 @@
+import type Stripe from 'stripe';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import type { WebhookOutcome } from '@/lib/stripe-webhook';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Ledger outcome stored in stripe_events.outcome
+ */
+export type LedgerOutcome = 'pending' | WebhookOutcome | 'failed';
+
+/**
+ * What the webhook route should do with a delivery
+ */
+export type DeliveryDecision = 'process' | 'duplicate';
+
+// A 'pending' row younger than this is assumed to be a delivery that is
+// still being processed, so a concurrent retry is not run a second time
+const IN_FLIGHT_WINDOW_MS = 2 * 60 * 1000;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// ============================================================================
+// LEDGER OPERATIONS
+// ============================================================================
+
+/**
+ * Record that an event was received and decide whether to process it.
+ *
+ * The first delivery of an event inserts its ledger row and is processed.
+ * Later deliveries are duplicates unless the earlier attempt failed or
+ * stalled, in which case the row is reset to 'pending' and processed again.
+ * The reset only applies if the row is unchanged since it was read, so of
+ * two concurrent retries only one claims it; the other is a duplicate.
+ *
+ * @param event - A verified Stripe event
+ * @returns {Promise<DeliveryDecision>} Whether the route should apply the event
+ */
+export async function recordEventReceived(event: Stripe.Event): Promise<DeliveryDecision> {
+  const now = new Date().toISOString();
+
+  const { error: insertError } = await supabaseAdmin
+    .from('stripe_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      livemode: event.livemode,
+      stripe_created_at: new Date(event.created * 1000).toISOString(),
+      received_at: now,
+      outcome: 'pending'
+    });
+
+  if (!insertError) {
+    return 'process';
+  }
+  if (insertError.code !== UNIQUE_VIOLATION) {
+    throw insertError;
+  }
+
+  // Seen before - look at how the earlier attempt went
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('stripe_events')
+    .select('outcome, received_at, attempts')
+    .eq('id', event.id)
+    .single();
+
+  if (lookupError) throw lookupError;
+
+  const outcome = existing.outcome as LedgerOutcome;
+  const inFlight = outcome === 'pending'
+    && Date.now() - new Date(existing.received_at).getTime() < IN_FLIGHT_WINDOW_MS;
+
+  if (outcome !== 'failed' && (outcome !== 'pending' || inFlight)) {
+    return 'duplicate';
+  }
+
+  // Retry a failed or stalled attempt, unless another delivery got there first
+  const { data: claimed, error: resetError } = await supabaseAdmin
+    .from('stripe_events')
+    .update({
+      outcome: 'pending',
+      error: null,
+      received_at: now,
+      attempts: (existing.attempts || 1) + 1
+    })
+    .eq('id', event.id)
+    .eq('outcome', existing.outcome)
+    .eq('received_at', existing.received_at)
+    .select('id');
+
+  if (resetError) throw resetError;
+  return claimed && claimed.length > 0 ? 'process' : 'duplicate';
+}
+
+/**
+ * Store the result of processing an event
+ * @param eventId - The Stripe event ID
+ * @param outcome - How processing ended
+ * @param error - Error message when outcome is 'failed'
+ */
+export async function recordEventOutcome(
+  eventId: string,
+  outcome: Exclude<LedgerOutcome, 'pending'>,
+  error?: string
+): Promise<void> {
+  const { error: updateError } = await supabaseAdmin
+    .from('stripe_events')
+    .update({
+      outcome,
+      error: error || null,
+      processed_at: new Date().toISOString()
+    })
+    .eq('id', eventId);
+
+  // The plan change already happened; a ledger write failure is only logged
+  if (updateError) {
+    console.error(`Failed to record outcome for Stripe event ${eventId}:`, updateError);
+  }
+}
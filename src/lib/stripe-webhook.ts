@@ -0,0 +1,368 @@
+import type Stripe from 'stripe';
+import stripe, { planForStripePrice } from '@/lib/stripe';
+import { DEFAULT_PAID_PLAN_ID, FREE_PLAN_ID, getPlan, type PlanId } from '@/lib/plans';
+import { supabaseAdmin } from '@/lib/supabase-admin';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Billing status stored in user_plan.status
+ */
+export type PlanStatus = 'inactive' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'refunded';
+
+/**
+ * Changes to apply to a user_plan row. Omitted fields are left unchanged.
+ * The stripe_* fields link the account to its Stripe objects.
+ */
+export interface PlanUpdate {
+  plan?: PlanId;
+  status: PlanStatus;
+  stripe_customer_id?: string | null;
+  stripe_subscription_id?: string | null;
+  stripe_price_id?: string | null;
+  current_period_end?: string | null; // ISO timestamp
+}
+
+/**
+ * Result of handling one webhook event. 'stale' means a newer event has
+ * already been applied to the user's plan, so this one was skipped.
+ */
+export type WebhookOutcome = 'processed' | 'ignored' | 'stale';
+
+/**
+ * The parts of the Stripe event envelope handlers need
+ */
+interface EventContext {
+  type: string;
+  created: number; // Unix seconds, from event.created
+}
+
+/**
+ * Hints used to find the Supabase user an event belongs to
+ */
+interface UserLookup {
+  userId?: string | null;
+  customerId?: string | null;
+  email?: string | null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Get the ID of an expandable Stripe reference
+ */
+function refId(ref: string | { id: string } | null | undefined): string | null {
+  if (!ref) return null;
+  return typeof ref === 'string' ? ref : ref.id;
+}
+
+/**
+ * Convert a Stripe Unix timestamp (seconds) to ISO, if present
+ */
+function toIso(seconds: number | null | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+/**
+ * Keep only the billing fields that are actually known, so an event that
+ * lacks (say) a price ID doesn't clear the stored one
+ */
+function knownBillingFields(fields: Omit<PlanUpdate, 'plan' | 'status'>): Omit<PlanUpdate, 'plan' | 'status'> {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== null && value !== undefined)
+  );
+}
+
+/**
+ * Work out which paid plan a purchase grants: the catalog plan for the Stripe
+ * price, else the plan named in checkout metadata, else the default paid plan
+ * @param priceId - Stripe price ID from the event, if known
+ * @param metadataPlan - metadata.plan set when the checkout session was created
+ * @returns {PlanId} A paid plan
+ */
+function paidPlanFor(priceId: string | null | undefined, metadataPlan?: string | null): PlanId {
+  const fromPrice = planForStripePrice(priceId);
+  if (fromPrice) return fromPrice;
+
+  const fromMetadata = getPlan(metadataPlan);
+  return fromMetadata.isPaid ? fromMetadata.id : DEFAULT_PAID_PLAN_ID;
+}
+
+/**
+ * Map a Stripe subscription status onto our plan and status.
+ * Returns null for states that should not change access yet.
+ * @param status - Stripe subscription status
+ * @param paidPlan - The plan the subscription is for
+ * @returns {PlanUpdate | null} The update to apply, if any
+ */
+function planForSubscriptionStatus(status: Stripe.Subscription.Status, paidPlan: PlanId): PlanUpdate | null {
+  switch (status) {
+    case 'trialing':
+      return { plan: paidPlan, status: 'trialing' };
+    case 'active':
+      return { plan: paidPlan, status: 'active' };
+    case 'past_due':
+    case 'unpaid':
+      // Keep access while Stripe retries the payment
+      return { plan: paidPlan, status: 'past_due' };
+    case 'paused':
+      return { plan: FREE_PLAN_ID, status: 'inactive' };
+    case 'canceled':
+    case 'incomplete_expired':
+      return { plan: FREE_PLAN_ID, status: 'canceled' };
+    case 'incomplete':
+    default:
+      // First payment has not gone through yet
+      return null;
+  }
+}
+
+/**
+ * Find the Supabase user for an event. Tries an explicit user ID first
+ * (client_reference_id or metadata), then the stored Stripe customer ID,
+ * then the customer's email.
+ * @param lookup - Identifiers taken from the event
+ * @returns {Promise<string | null>} The user ID, or null if no user matches
+ */
+async function resolveUserId(lookup: UserLookup): Promise<string | null> {
+  if (lookup.userId) {
+    return lookup.userId;
+  }
+
+  if (lookup.customerId) {
+    const { data, error } = await supabaseAdmin
+      .from('user_plan')
+      .select('id')
+      .eq('stripe_customer_id', lookup.customerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data.id;
+  }
+
+  let email = lookup.email;
+  if (!email && lookup.customerId) {
+    const customer = await stripe.customers.retrieve(lookup.customerId);
+    email = customer.deleted ? null : customer.email;
+  }
+
+  if (email) {
+    const { data, error } = await supabaseAdmin
+      .from('user_plan')
+      .select('id')
+      .eq('email', email.toLowerCase())
+      .maybeSingle();
+
+    if (error) throw error;
+    if (data) return data.id;
+  }
+
+  return null;
+}
+
+/**
+ * Write a plan update for a user, creating the user_plan row if needed.
+ *
+ * user_plan.stripe_event_at holds the creation time of the last Stripe event
+ * applied to the row. The update only goes through if this event is at least
+ * as new, so a late retry of an older event can't roll the plan back.
+ *
+ * @param userId - The Supabase user ID
+ * @param update - The plan and status to apply
+ * @param eventCreated - The event's creation time (Unix seconds)
+ * @returns {Promise<WebhookOutcome>} 'stale' if a newer event was already applied
+ */
+async function applyPlanUpdate(userId: string, update: PlanUpdate, eventCreated: number): Promise<WebhookOutcome> {
+  const eventAt = new Date(eventCreated * 1000).toISOString();
+  const row = {
+    ...update,
+    stripe_event_at: eventAt,
+    last_updated: new Date().toISOString()
+  };
+
+  // Conditional update: only rows with no newer event applied
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from('user_plan')
+    .update(row)
+    .eq('id', userId)
+    .or(`stripe_event_at.is.null,stripe_event_at.lte."${eventAt}"`)
+    .select('id');
+
+  if (updateError) throw updateError;
+  if (updated && updated.length > 0) {
+    return 'processed';
+  }
+
+  // Nothing updated: either the row is missing or it has a newer event
+  const { data: existing, error: lookupError } = await supabaseAdmin
+    .from('user_plan')
+    .select('id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+  if (existing) {
+    return 'stale';
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from('user_plan')
+    .insert({ id: userId, ...row });
+
+  if (insertError) throw insertError;
+  return 'processed';
+}
+
+/**
+ * Resolve the user for an event and apply an update
+ * @returns {Promise<WebhookOutcome>} 'ignored' if no user could be matched
+ */
+async function updateUserPlan(context: EventContext, lookup: UserLookup, update: PlanUpdate): Promise<WebhookOutcome> {
+  const userId = await resolveUserId(lookup);
+  if (!userId) {
+    console.warn(`[Stripe] No user found for ${context.type}`, {
+      customerId: lookup.customerId,
+      email: lookup.email
+    });
+    return 'ignored';
+  }
+
+  return applyPlanUpdate(userId, update, context.created);
+}
+
+// ============================================================================
+// EVENT HANDLERS
+// ============================================================================
+
+async function handleCheckoutCompleted(context: EventContext, session: Stripe.Checkout.Session): Promise<WebhookOutcome> {
+  // Delayed payment methods complete checkout before the money arrives
+  if (session.payment_status === 'unpaid') {
+    return 'ignored';
+  }
+
+  // Line items aren't included in the event payload
+  const lineItems = await stripe.checkout.sessions.listLineItems(session.id, { limit: 1 });
+  const priceId = lineItems.data[0]?.price?.id;
+
+  return updateUserPlan(context, {
+    userId: session.client_reference_id || session.metadata?.user_id,
+    customerId: refId(session.customer),
+    email: session.customer_details?.email || session.customer_email
+  }, {
+    plan: paidPlanFor(priceId, session.metadata?.plan),
+    status: 'active',
+    ...knownBillingFields({
+      stripe_customer_id: refId(session.customer),
+      stripe_subscription_id: refId(session.subscription),
+      stripe_price_id: priceId
+    })
+  });
+}
+
+async function handleSubscriptionChanged(
+  context: EventContext,
+  subscription: Stripe.Subscription
+): Promise<WebhookOutcome> {
+  // Basil API: billing periods live on the subscription items
+  const item = subscription.items.data[0];
+
+  const deleted = context.type === 'customer.subscription.deleted';
+  const update = deleted
+    ? { plan: FREE_PLAN_ID, status: 'canceled' as const }
+    : planForSubscriptionStatus(subscription.status, paidPlanFor(item?.price?.id, subscription.metadata?.plan));
+
+  if (!update) {
+    return 'ignored';
+  }
+
+  return updateUserPlan(context, {
+    userId: subscription.metadata?.user_id,
+    customerId: refId(subscription.customer)
+  }, {
+    ...update,
+    ...knownBillingFields({
+      stripe_customer_id: refId(subscription.customer),
+      stripe_subscription_id: subscription.id,
+      stripe_price_id: item?.price?.id
+    }),
+    // A deleted subscription no longer renews
+    current_period_end: deleted ? null : toIso(item?.current_period_end)
+  });
+}
+
+async function handleInvoicePaid(context: EventContext, invoice: Stripe.Invoice): Promise<WebhookOutcome> {
+  const subscriptionDetails = invoice.parent?.subscription_details;
+  const line = invoice.lines?.data[0];
+  const priceId = line?.pricing?.price_details?.price;
+
+  return updateUserPlan(context, {
+    userId: subscriptionDetails?.metadata?.user_id,
+    customerId: refId(invoice.customer),
+    email: invoice.customer_email
+  }, {
+    plan: paidPlanFor(priceId, subscriptionDetails?.metadata?.plan),
+    status: 'active',
+    ...knownBillingFields({
+      stripe_customer_id: refId(invoice.customer),
+      stripe_subscription_id: refId(subscriptionDetails?.subscription),
+      stripe_price_id: priceId,
+      current_period_end: subscriptionDetails ? toIso(line?.period?.end) : null
+    })
+  });
+}
+
+async function handleInvoicePaymentFailed(context: EventContext, invoice: Stripe.Invoice): Promise<WebhookOutcome> {
+  // Leave the plan alone; Stripe will retry and send a subscription update
+  return updateUserPlan(context, {
+    userId: invoice.parent?.subscription_details?.metadata?.user_id,
+    customerId: refId(invoice.customer),
+    email: invoice.customer_email
+  }, { status: 'past_due' });
+}
+
+async function handleChargeRefunded(context: EventContext, charge: Stripe.Charge): Promise<WebhookOutcome> {
+  // Partial refunds (goodwill credits etc.) don't revoke access
+  if (!charge.refunded) {
+    return 'ignored';
+  }
+
+  return updateUserPlan(context, {
+    userId: charge.metadata?.user_id,
+    customerId: refId(charge.customer),
+    email: charge.billing_details?.email || charge.receipt_email
+  }, { plan: FREE_PLAN_ID, status: 'refunded' });
+}
+
+/**
+ * Apply a verified Stripe event to user_plan.
+ *
+ * Throws on database or Stripe API errors so the route can answer 5xx and
+ * let Stripe retry. Unknown event types resolve to 'ignored'.
+ *
+ * @param event - A Stripe event whose signature has already been verified
+ * @returns {Promise<WebhookOutcome>} Whether the event changed anything
+ */
+export async function handleStripeEvent(event: Stripe.Event): Promise<WebhookOutcome> {
+  const context: EventContext = { type: event.type, created: event.created };
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return handleCheckoutCompleted(context, event.data.object);
+    case 'customer.subscription.created':
+    case 'customer.subscription.updated':
+    case 'customer.subscription.deleted':
+      return handleSubscriptionChanged(context, event.data.object);
+    case 'invoice.paid':
+      return handleInvoicePaid(context, event.data.object);
+    case 'invoice.payment_failed':
+      return handleInvoicePaymentFailed(context, event.data.object);
+    case 'charge.refunded':
+      return handleChargeRefunded(context, event.data.object);
+    default:
+      return 'ignored';
+  }
+}
@@ -1,4 +1,5 @@
 import Stripe from 'stripe';
+import { PLANS, type PlanId } from '@/lib/plans';
 
 // Environment-aware Stripe configuration
 const isTesting = process.env.NEXT_PUBLIC_IS_TESTING === "true";
@@ -11,4 +12,31 @@ const stripe = new Stripe(
   }
 );
 
-export default stripe; 
\ No newline at end of file
+// Signing secret for the webhook endpoint, matching the key mode above
+export const webhookSecret = isProd
+  ? process.env.STRIPE_WEBHOOK_SECRET!
+  : process.env.TEST_STRIPE_WEBHOOK_SECRET!;
+
+/**
+ * Stripe price ID for a plan, matching the key mode above
+ * @param planId - A plan from the catalog
+ * @returns {string | null} The price ID, or null if the plan isn't sold or isn't configured
+ */
+export function getStripePriceId(planId: PlanId): string | null {
+  const env = PLANS[planId].stripePriceEnv;
+  if (!env) return null;
+  return process.env[isProd ? env.live : env.test] || null;
+}
+
+/**
+ * Find the plan a Stripe price belongs to
+ * @param priceId - A Stripe price ID
+ * @returns {PlanId | null} The plan, or null if no plan uses this price
+ */
+export function planForStripePrice(priceId: string | null | undefined): PlanId | null {
+  if (!priceId) return null;
+  const plan = Object.values(PLANS).find(p => getStripePriceId(p.id) === priceId);
+  return plan ? plan.id : null;
+}
+
+export default stripe;
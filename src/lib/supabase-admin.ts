@@ -0,0 +1,24 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// ============================================================================
+// SERVER-ONLY SUPABASE CLIENT
+// ============================================================================
+
+/**
+ * Service-role Supabase client for API routes.
+ *
+ * This client bypasses Row Level Security, so it must only ever be imported
+ * from server code (API routes, getServerSideProps). Required env vars:
+ * NEXT_PUBLIC_SUPABASE_URL=your_supabase_project_url
+ * SUPABASE_SERVICE_ROLE_KEY=your_service_role_key
+ */
+export const supabaseAdmin: SupabaseClient = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!,
+  {
+    auth: {
+      persistSession: false, // No browser storage on the server
+      autoRefreshToken: false,
+    },
+  }
+);
@@ -0,0 +1,109 @@
+import type { GetServerSidePropsContext, Redirect } from 'next';
+import { createServerClient, parseCookieHeader, serializeCookieHeader } from '@supabase/ssr';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Result of checking the session for a protected page. On failure, return
+ * `redirect` from getServerSideProps.
+ */
+export type PageAuthResult =
+  | { ok: true; user: User; supabase: SupabaseClient }
+  | { ok: false; redirect: Redirect };
+
+// ============================================================================
+// SERVER CLIENT
+// ============================================================================
+
+/**
+ * Create a Supabase client for getServerSideProps (or an API route) that
+ * reads the session from the request cookies and writes refreshed tokens
+ * back to the response.
+ *
+ * Queries run as the signed-in user, so Row Level Security still applies.
+ *
+ * @param context - The getServerSideProps context, or an API route's { req, res }
+ * @returns {SupabaseClient} A per-request Supabase client
+ */
+export function createServerSupabaseClient(context: Pick<GetServerSidePropsContext, 'req' | 'res'>): SupabaseClient {
+  const { req, res } = context;
+
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return parseCookieHeader(req.headers.cookie ?? '').map(({ name, value }) => ({
+            name,
+            value: value ?? ''
+          }));
+        },
+        setAll(cookiesToSet) {
+          // Keep any Set-Cookie headers already on the response
+          const existing = res.getHeader('Set-Cookie');
+          const previous = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+
+          res.setHeader('Set-Cookie', [
+            ...previous,
+            ...cookiesToSet.map(({ name, value, options }) => serializeCookieHeader(name, value, options))
+          ]);
+        }
+      }
+    }
+  );
+}
+
+// ============================================================================
+// PAGE PROTECTION
+// ============================================================================
+
+/**
+ * Require a signed-in user for a page rendered with getServerSideProps.
+ *
+ * The session cookie is validated against the Supabase auth server (not just
+ * decoded), so expired or revoked sessions are rejected before any protected
+ * markup is rendered. Unauthenticated requests are sent to
+ * /login?next=<original path>.
+ *
+ * If the URL carries a PKCE `code` (email confirmation links), it is exchanged
+ * for a session first and the request is redirected to the same page without it.
+ *
+ * @param context - The getServerSideProps context
+ * @returns {Promise<PageAuthResult>} The user and a server client, or a redirect
+ */
+export async function requirePageAuth(context: GetServerSidePropsContext): Promise<PageAuthResult> {
+  const supabase = createServerSupabaseClient(context);
+  const url = new URL(context.resolvedUrl, 'http://localhost');
+
+  const code = url.searchParams.get('code');
+  if (code) {
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (error) {
+      console.error('Error exchanging auth code:', error.message);
+    }
+
+    url.searchParams.delete('code');
+    return {
+      ok: false,
+      redirect: { destination: `${url.pathname}${url.search}`, permanent: false }
+    };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    return {
+      ok: false,
+      redirect: {
+        destination: `/login?next=${encodeURIComponent(context.resolvedUrl)}`,
+        permanent: false
+      }
+    };
+  }
+
+  return { ok: true, user, supabase };
+}
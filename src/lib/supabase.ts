@@ -1,4 +1,11 @@
-import { createClient, SupabaseClient, Session, AuthChangeEvent, User } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
+import { SupabaseClient, Session, AuthChangeEvent, User } from '@supabase/supabase-js';
+import type { PlanId } from '@/lib/plans';
+
+// Browser half of the auth/session module: the shared cookie-based client,
+// session helpers and user data lookups. Every page goes through this client,
+// so they all see the same session. The server half, for getServerSideProps,
+// is lib/supabase-server.ts; API routes verify bearer tokens in lib/api-auth.ts.
 
 // ============================================================================
 // CONFIGURATION & ENVIRONMENT SETUP
@@ -14,6 +21,9 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 // Debug flag for development - enables detailed auth logging
 export const DEBUG = process.env.NODE_ENV === 'development';
 
+// Environment detection for timing adjustments
+const isProduction = process.env.NODE_ENV === 'production';
+
 // ============================================================================
 // AUTHENTICATION CONFIGURATION
 // ============================================================================
@@ -21,10 +31,14 @@ export const DEBUG = process.env.NODE_ENV === 'development';
 /**
  * Supabase Auth Configuration Options:
  * 
+ * The client is created with @supabase/ssr's createBrowserClient, which keeps
+ * the session in cookies instead of localStorage. That lets getServerSideProps
+ * read and verify the session (see lib/supabase-server.ts), so protected pages
+ * redirect before rendering. It also uses the PKCE flow for email links.
+ * 
  * persistSession: true - Uses cookies to persist session across browser sessions
  *   - Sessions survive browser restarts and tab closures
  *   - Automatically handles session restoration on page load
- *   - More secure than localStorage for session storage
  * 
  * autoRefreshToken: true - Automatically refreshes access tokens before they expire
  *   - Prevents users from being logged out due to token expiration
@@ -45,9 +59,9 @@ if (!supabaseAnonKey) {
 }
 
 // Create a single supabase client for the whole app
-export const supabase: SupabaseClient = createClient(supabaseUrl, supabaseAnonKey, {
+export const supabase: SupabaseClient = createBrowserClient(supabaseUrl, supabaseAnonKey, {
   auth: {
-    persistSession: true, // Use cookies for session persistence (default)
+    persistSession: true, // Session cookies, readable by the server
     autoRefreshToken: true, // Enable auto token refresh
     detectSessionInUrl: true, // Detect session in URL for OAuth redirects
   },
@@ -75,8 +89,12 @@ export interface UserPlan {
   email?: string;
   first_name?: string;
   last_name?: string;
-  plan: 'free' | 'premium' | 'enterprise' | 'beta' | 'founding';
+  plan: PlanId;
+  status?: 'inactive' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'refunded';
   stripe_customer_id?: string;
+  stripe_subscription_id?: string;
+  stripe_price_id?: string;
+  current_period_end?: string;  // When the current billing period renews (ISO)
   created_at: string;
   last_updated: string;
 }
@@ -89,6 +107,38 @@ export interface AuthStatus {
   error?: string;
 }
 
+/**
+ * Session persistence configuration options
+ */
+export interface SessionPersistenceConfig {
+  /** Maximum time to wait for session refresh (default: 5000ms) */
+  maxRefreshWaitTime?: number;
+  /** Time to wait for cookie propagation (default: 200ms in prod, 50ms in dev) */
+  cookiePropagationDelay?: number;
+  /** Whether to force session refresh even if session exists */
+  forceRefresh?: boolean;
+  /** Custom error handler for session operations */
+  onError?: (error: Error) => void;
+  /** Callback when session is successfully persisted */
+  onSuccess?: (session: Session) => void;
+}
+
+/**
+ * Session persistence result
+ */
+export interface SessionPersistenceResult {
+  /** Whether session persistence was successful */
+  success: boolean;
+  /** The current session after persistence attempt */
+  session: Session | null;
+  /** Any error that occurred during the process */
+  error?: string;
+  /** Whether a session refresh was performed */
+  refreshed: boolean;
+  /** Time taken for the operation in milliseconds */
+  duration: number;
+}
+
 // ============================================================================
 // UTILITY FUNCTIONS
 // ============================================================================
@@ -214,16 +264,75 @@ async function withRetry<T>(
       }
       
       // Calculate delay with exponential backoff
-      const delay = baseDelay * Math.pow(2, attempt);
-      debugLog(`Retry attempt ${attempt + 1}/${maxRetries + 1} after ${delay}ms`);
+      const delayMs = baseDelay * Math.pow(2, attempt);
+      debugLog(`Retry attempt ${attempt + 1}/${maxRetries + 1} after ${delayMs}ms`);
       
-      await new Promise(resolve => setTimeout(resolve, delay));
+      await delay(delayMs);
     }
   }
   
   throw lastError;
 }
 
+/**
+ * Get environment-appropriate cookie propagation delay
+ * Production environments need more time for cookie propagation across
+ * different servers/load balancers, while development can be faster
+ */
+function getCookiePropagationDelay(): number {
+  if (isProduction) {
+    return 200; // 200ms for production - accounts for load balancers, CDN, etc.
+  }
+  return 50; // 50ms for development - faster for better DX
+}
+
+/**
+ * Check if a session is valid and not expired
+ * @param session - The session to validate
+ * @returns {boolean} True if session is valid, false otherwise
+ */
+function isSessionValid(session: Session | null): boolean {
+  if (!session) return false;
+  
+  // Check if session has required properties
+  if (!session.access_token || !session.refresh_token || !session.user) {
+    return false;
+  }
+  
+  // Check if session is expired (with 5-minute buffer for safety)
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = session.expires_at;
+  const bufferTime = 5 * 60; // 5 minutes in seconds
+  
+  return expiresAt ? (expiresAt - bufferTime) > now : false;
+}
+
+/**
+ * Check if a session needs refresh based on expiration time
+ * @param session - The session to check
+ * @returns {boolean} True if session needs refresh, false otherwise
+ */
+function needsSessionRefresh(session: Session | null): boolean {
+  if (!session) return true;
+  
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt = session.expires_at;
+  
+  // Refresh if session expires within 10 minutes
+  const refreshThreshold = 10 * 60; // 10 minutes in seconds
+  
+  return expiresAt ? (expiresAt - refreshThreshold) <= now : true;
+}
+
+/**
+ * Wait for a specified amount of time
+ * @param ms - Milliseconds to wait
+ * @returns {Promise<void>} Promise that resolves after the delay
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
 // ============================================================================
 // AUTHENTICATION HELPER FUNCTIONS
 // ============================================================================
@@ -409,9 +518,10 @@ export async function getCurrentUser(): Promise<User | null> {
  * - Get additional user metadata beyond basic auth info
  * 
  * @param userId - The user's ID
+ * @param client - Client to query with; pass the server client from getServerSideProps
  * @returns {Promise<UserProfile | null>} The user profile or null if not found
  */
-export async function getUserProfile(userId: string): Promise<UserProfile | null> {
+export async function getUserProfile(userId: string, client: SupabaseClient = supabase): Promise<UserProfile | null> {
   if (!isClientReady()) {
     debugLog('Client not ready for getUserProfile');
     return null;
@@ -426,7 +536,7 @@ export async function getUserProfile(userId: string): Promise<UserProfile | null
     debugLog(`Getting user profile for: ${userId}`);
     
     const { data, error } = await withRetry(async () => {
-      return await supabase
+      return await client
         .from('user_profiles')
         .select('*')
         .eq('id', userId)
@@ -526,9 +636,10 @@ export async function isAuthenticated(): Promise<boolean> {
  * - Validate plan-based permissions
  * 
  * @param userId - The user's ID
+ * @param client - Client to query with; pass the server client from getServerSideProps
  * @returns {Promise<UserPlan | null>} The user plan or null if not found
  */
-export async function getUserPlan(userId: string): Promise<UserPlan | null> {
+export async function getUserPlan(userId: string, client: SupabaseClient = supabase): Promise<UserPlan | null> {
   if (!isClientReady()) {
     debugLog('Client not ready for getUserPlan');
     return null;
@@ -543,7 +654,7 @@ export async function getUserPlan(userId: string): Promise<UserPlan | null> {
     debugLog(`Getting user plan for: ${userId}`);
     
     const { data, error } = await withRetry(async () => {
-      return await supabase
+      return await client
         .from('user_plan')
         .select('*')
         .eq('id', userId)
@@ -634,6 +745,250 @@ export function onAuthStateChange(
   };
 }
 
+// ============================================================================
+// SESSION PERSISTENCE
+// ============================================================================
+
+/**
+ * Ensures session persistence with comprehensive error handling and timing optimization
+ * 
+ * This function is critical for maintaining user sessions across:
+ * - Page refreshes and browser restarts
+ * - Network interruptions and reconnections
+ * - Token expiration and automatic refresh
+ * - Cross-tab session synchronization
+ * - Production load balancer scenarios
+ * 
+ * Key Features:
+ * - Automatic session refresh when needed
+ * - Environment-specific timing optimizations
+ * - Comprehensive error handling and retry logic
+ * - Cookie propagation timing for production environments
+ * - Detailed logging for debugging
+ * 
+ * @param config - Configuration options for session persistence
+ * @returns {Promise<SessionPersistenceResult>} Result of the session persistence operation
+ */
+export async function ensureSessionPersistence(
+  config: SessionPersistenceConfig = {}
+): Promise<SessionPersistenceResult> {
+  const startTime = Date.now();
+  const {
+    maxRefreshWaitTime = 5000,
+    cookiePropagationDelay = getCookiePropagationDelay(),
+    forceRefresh = false,
+    onError,
+    onSuccess
+  } = config;
+
+  debugLog('Starting session persistence check', {
+    forceRefresh,
+    cookiePropagationDelay,
+    maxRefreshWaitTime
+  });
+
+  if (!isClientReady()) {
+    return {
+      success: false,
+      session: null,
+      error: 'Supabase client not initialized',
+      refreshed: false,
+      duration: 0
+    };
+  }
+
+  try {
+    // Step 1: Get current session state
+    // This is the baseline check to understand the current authentication state
+    debugLog('Getting current session...');
+    const { data: { session: currentSession }, error: getSessionError } = await supabase.auth.getSession();
+
+    if (getSessionError) {
+      debugLog('Error getting current session:', getSessionError);
+      const error = new Error(`Failed to get current session: ${getSessionError.message}`);
+      onError?.(error);
+      
+      return {
+        success: false,
+        session: null,
+        error: error.message,
+        refreshed: false,
+        duration: Date.now() - startTime
+      };
+    }
+
+    // Step 2: Validate current session
+    // Check if the session exists and is valid before proceeding
+    const isValidSession = isSessionValid(currentSession);
+    const needsRefresh = forceRefresh || needsSessionRefresh(currentSession);
+
+    debugLog('Session validation results:', {
+      hasSession: !!currentSession,
+      isValid: isValidSession,
+      needsRefresh,
+      forceRefresh
+    });
+
+    // Step 3: Handle session refresh if needed
+    let refreshed = false;
+    let finalSession = currentSession;
+
+    if (needsRefresh) {
+      debugLog('Session refresh required, starting refresh process...');
+      
+      try {
+        // Use retry logic for session refresh to handle network issues
+        const refreshResult = await withRetry(async () => {
+          const { data, error } = await supabase.auth.refreshSession();
+          
+          if (error) {
+            throw error;
+          }
+          
+          return data;
+        }, 3, 1000);
+
+        if (refreshResult.session) {
+          finalSession = refreshResult.session;
+          refreshed = true;
+          debugLog('Session refresh successful', {
+            userId: finalSession.user?.id,
+            expiresAt: finalSession.expires_at
+          });
+        } else {
+          debugLog('Session refresh returned no session');
+        }
+      } catch (refreshError) {
+        debugLog('Session refresh failed:', refreshError);
+        
+        // If refresh fails, we might need to redirect to login
+        // But don't throw here - let the calling code decide how to handle it
+        const error = refreshError instanceof Error ? refreshError : new Error('Session refresh failed');
+        onError?.(error);
+        
+        return {
+          success: false,
+          session: currentSession, // Return current session even if refresh failed
+          error: error.message,
+          refreshed: false,
+          duration: Date.now() - startTime
+        };
+      }
+    }
+
+    // Step 4: Wait for cookie propagation (critical for production)
+    // This ensures that session cookies are properly set before continuing
+    // Production environments need more time due to load balancers, CDN, etc.
+    if (refreshed || finalSession) {
+      debugLog(`Waiting ${cookiePropagationDelay}ms for cookie propagation...`);
+      await delay(cookiePropagationDelay);
+    }
+
+    // Step 5: Verify final session state
+    // Double-check that our session is still valid after all operations
+    const finalValidation = isSessionValid(finalSession);
+    
+    debugLog('Final session validation:', {
+      hasSession: !!finalSession,
+      isValid: finalValidation,
+      refreshed
+    });
+
+    // Step 6: Success callback and return result
+    if (finalSession && finalValidation) {
+      onSuccess?.(finalSession);
+    }
+
+    const duration = Date.now() - startTime;
+    
+    debugLog('Session persistence completed', {
+      success: finalValidation,
+      duration,
+      refreshed
+    });
+
+    return {
+      success: finalValidation,
+      session: finalSession,
+      refreshed,
+      duration
+    };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    debugLog('Session persistence failed:', error);
+    
+    const finalError = error instanceof Error ? error : new Error(errorMessage);
+    onError?.(finalError);
+    
+    return {
+      success: false,
+      session: null,
+      error: errorMessage,
+      refreshed: false,
+      duration: Date.now() - startTime
+    };
+  }
+}
+
+/**
+ * Get detailed session information for debugging
+ * @returns {Promise<object>} Detailed session information
+ */
+export async function getSessionInfo(): Promise<{
+  hasSession: boolean;
+  isValid: boolean;
+  needsRefresh: boolean;
+  user?: {
+    id: string;
+    email: string;
+  };
+  expiresAt?: number;
+  timeUntilExpiry?: number;
+}> {
+  try {
+    const { data: { session }, error } = await supabase.auth.getSession();
+    
+    if (error || !session) {
+      return {
+        hasSession: false,
+        isValid: false,
+        needsRefresh: true
+      };
+    }
+    
+    const now = Math.floor(Date.now() / 1000);
+    const timeUntilExpiry = session.expires_at ? session.expires_at - now : 0;
+    
+    return {
+      hasSession: true,
+      isValid: isSessionValid(session),
+      needsRefresh: needsSessionRefresh(session),
+      user: session.user ? {
+        id: session.user.id,
+        email: session.user.email || 'No email'
+      } : undefined,
+      expiresAt: session.expires_at,
+      timeUntilExpiry
+    };
+  } catch (error) {
+    debugLog('Error getting session info:', error);
+    return {
+      hasSession: false,
+      isValid: false,
+      needsRefresh: true
+    };
+  }
+}
+
+/**
+ * Force session refresh regardless of current state
+ * @returns {Promise<SessionPersistenceResult>} Result of forced refresh
+ */
+export async function forceSessionRefresh(): Promise<SessionPersistenceResult> {
+  return ensureSessionPersistence({ forceRefresh: true });
+}
+
 // ============================================================================
 // TYPE EXPORTS
 // ============================================================================
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  DEFAULT_TIME_ZONE,
+  getActivitySummary,
+  isValidTimeZone,
+  type ActivitySummary,
+} from '@/lib/analytics'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  activity?: ActivitySummary;
+}
+
+/**
+ * GET /api/analytics/activity?tz=<IANA time zone>
+ *
+ * Current and longest sourcing streaks plus daily product_sourced counts
+ * for the past year, with days in the given time zone (default: UTC).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const timeZone = typeof req.query.tz === 'string' && req.query.tz ? req.query.tz : DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return res.status(400).json({ success: false, error: 'Invalid time zone' });
+  }
+
+  try {
+    const activity = await getActivitySummary(auth.identity.userId, timeZone);
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).json({ success: true, activity });
+  } catch (error) {
+    console.error('Activity analytics error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
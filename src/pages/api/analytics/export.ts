@@ -0,0 +1,170 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { addDays, DEFAULT_TIME_ZONE, isDate, isValidTimeZone, startOfLocalDay } from '@/lib/analytics'
+import { isEventType, type EventType } from '@/lib/events'
+import {
+  csvHeader,
+  EXPORT_FORMATS,
+  iterateUserEvents,
+  toCsvRows,
+  type ExportFilter,
+  type ExportFormat,
+} from '@/lib/event-export'
+
+// Exports can be far larger than Next's default 4MB response warning
+export const config = {
+  api: {
+    responseLimit: false,
+  },
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Write a chunk, waiting for the socket to drain when its buffer is full
+ * @returns {Promise<boolean>} False if the client has gone (the response closed or errored)
+ */
+function write(res: NextApiResponse, chunk: string): Promise<boolean> {
+  return new Promise(resolve => {
+    if (res.destroyed) {
+      resolve(false);
+      return;
+    }
+    if (res.write(chunk)) {
+      resolve(true);
+      return;
+    }
+
+    const settle = (open: boolean) => () => {
+      res.off('drain', onDrain);
+      res.off('close', onClose);
+      res.off('error', onClose);
+      resolve(open);
+    };
+    const onDrain = settle(true);
+    const onClose = settle(false);
+    res.once('drain', onDrain);
+    res.once('close', onClose);
+    res.once('error', onClose);
+  });
+}
+
+/**
+ * Read the export filters from the query string
+ * @returns The filter, or a client-facing error
+ */
+function parseFilter(query: NextApiRequest['query']): { filter: ExportFilter; label: string } | { error: string } {
+  const param = (name: string) => (typeof query[name] === 'string' && query[name] ? query[name] as string : undefined);
+
+  const timeZone = param('tz') || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return { error: 'Invalid time zone' };
+  }
+
+  const from = param('from');
+  const to = param('to');
+  if ((from && !isDate(from)) || (to && !isDate(to))) {
+    return { error: 'from and to must be YYYY-MM-DD dates' };
+  }
+  if (from && to && from > to) {
+    return { error: 'from must not be after to' };
+  }
+
+  // Comma-separated list, e.g. type=product_sourced,session_end
+  const types = param('type')?.split(',').map(type => type.trim()).filter(Boolean) || [];
+  const unknown = types.find(type => !isEventType(type));
+  if (unknown) {
+    return { error: `Unknown event type: ${unknown}` };
+  }
+
+  return {
+    filter: {
+      since: from ? startOfLocalDay(from, timeZone) : undefined,
+      until: to ? startOfLocalDay(addDays(to, 1), timeZone) : undefined,
+      eventTypes: types as EventType[]
+    },
+    label: `${from || 'start'}-to-${to || 'now'}`
+  };
+}
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * GET /api/analytics/export?format=csv|json&tz=&from=&to=&type=
+ *
+ * Streams the user's event history, oldest first, as a CSV or JSON file
+ * download. `from` and `to` are inclusive days in `tz` and both optional;
+ * `type` is a comma-separated list of event types (default: all).
+ *
+ * Rows are read from the database a page at a time and written as they
+ * arrive, and reading stops if the client disconnects. If a query fails
+ * part-way, the status has already been sent, so the connection is reset
+ * instead of ended: the client sees an interrupted download rather than a
+ * complete-looking, truncated file.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const format = (req.query.format ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, error: 'format must be csv or json' });
+  }
+
+  const parsed = parseFilter(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({ success: false, error: parsed.error });
+  }
+
+  const filename = `nexsellpro-events-${parsed.label}.${format}`;
+  res.status(200);
+  res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  let exported = 0;
+  let failed = false;
+  try {
+    let open = await write(res, format === 'csv' ? csvHeader() : '[');
+
+    if (open) {
+      for await (const page of iterateUserEvents(auth.identity.userId, parsed.filter)) {
+        const chunk = format === 'csv'
+          ? toCsvRows(page)
+          : `${exported > 0 ? ',\n' : '\n'}${page.map(event => JSON.stringify(event)).join(',\n')}`;
+        exported += page.length;
+
+        // Leaving the loop stops the pagination
+        open = await write(res, chunk);
+        if (!open) break;
+      }
+    }
+
+    if (open && format === 'json') {
+      open = await write(res, '\n]\n');
+    }
+    if (!open) {
+      console.log(`Event export cancelled by the client after ${exported} rows`);
+    }
+  } catch (error) {
+    console.error(`Event export failed after ${exported} rows:`, error);
+    failed = true;
+  } finally {
+    if (failed) {
+      res.destroy();
+    } else {
+      res.end();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAnalyticsSummary, parseDateRange, type AnalyticsSummary } from '@/lib/analytics'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  summary?: AnalyticsSummary;
+}
+
+/**
+ * GET /api/analytics/summary?tz=<IANA time zone>&from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Minutes and products sourced over the range, products sourced today,
+ * all-time products and streaks, aggregated in the database. The range is
+ * inclusive and defaults to the last 7 days in the given time zone (UTC if
+ * omitted).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const parsed = parseDateRange(req.query);
+  if (!parsed.ok) {
+    return res.status(400).json({ success: false, error: parsed.error });
+  }
+
+  try {
+    const summary = await getAnalyticsSummary(auth.identity.userId, parsed.range);
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).json({ success: true, summary });
+  } catch (error) {
+    console.error('Analytics summary error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  DEFAULT_TRENDS_DAYS,
+  getTrends,
+  parseDateRange,
+  TREND_INTERVALS,
+  type TrendInterval,
+  type TrendsReport,
+} from '@/lib/analytics'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  trends?: TrendsReport;
+}
+
+/**
+ * GET /api/analytics/trends?tz=&from=&to=&interval=day|week|month
+ *
+ * Sourcing minutes, products sourced, exports and pricing changes per day,
+ * week or month, with totals compared against the equally long period just
+ * before the range. The range defaults to the last 30 days and the interval
+ * to day.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const parsed = parseDateRange(req.query, DEFAULT_TRENDS_DAYS);
+  if (!parsed.ok) {
+    return res.status(400).json({ success: false, error: parsed.error });
+  }
+
+  const interval = req.query.interval === undefined ? 'day' : req.query.interval;
+  if (!TREND_INTERVALS.includes(interval as TrendInterval)) {
+    return res.status(400).json({ success: false, error: 'interval must be day, week or month' });
+  }
+
+  try {
+    const trends = await getTrends(auth.identity.userId, parsed.range, interval as TrendInterval);
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).json({ success: true, trends });
+  } catch (error) {
+    console.error('Analytics trends error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -1,78 +1,108 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { createClient } from '@supabase/supabase-js'
+import { supabaseAdmin as supabase } from '@/lib/supabase-admin'
+import { authenticateRequest } from '@/lib/api-auth'
+import { handleCors } from '@/lib/cors'
+import { enforceRateLimit, identityKeys, ipKey } from '@/lib/rate-limit'
+import { getPlan, type FeatureId, type PlanId } from '@/lib/plans'
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
 
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
-  // Add CORS headers to allow extension requests
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-  
-  // Handle preflight requests from extension
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
+/**
+ * What the authenticated user is entitled to
+ */
+interface Entitlement {
+  userId: string;
+  email: string | null;
+  plan: PlanId;
+  planName: string;
+  status: string;
+  isPaid: boolean;
+  features: FeatureId[];
+}
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  entitlement?: Entitlement;
+}
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * GET|POST /api/check-user-status
+ *
+ * Returns the entitlement for the user identified by the bearer credential
+ * (a Supabase access token or an extension key). There is no way to look up
+ * another user.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  // Only the extension and the site may call this from a browser
+  if (handleCors(req, res, ['GET', 'POST'])) {
+    return;
   }
 
-  // Only allow POST requests
-  if (req.method !== 'POST') {
-    res.setHeader('Allow', 'POST')
-    return res.status(405).json({ error: 'Method not allowed' })
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST')
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
   }
 
-  try {
-    const { email } = req.body
+  if (!(await enforceRateLimit(res, 'check-user-status', [ipKey(req)]))) {
+    return
+  }
 
-    if (!email) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Email is required' 
+  try {
+    const auth = await authenticateRequest(req, { allowExtensionKey: true, scope: 'status:read' })
+    if (!auth.ok) {
+      return res.status(auth.status).json({
+        success: false,
+        error: auth.error
       })
     }
+    if (!(await enforceRateLimit(res, 'check-user-status', identityKeys(auth.identity)))) {
+      return
+    }
+    const { userId, email } = auth.identity
 
-    // Look up user in the database
+    // Look up the user's plan
     const { data: user, error } = await supabase
       .from('user_plan')
-      .select('*')
-      .eq('email', email.toLowerCase())
-      .single()
+      .select('plan, status, email')
+      .eq('id', userId)
+      .maybeSingle()
 
-    if (error && error.code !== 'PGRST116') {
-      // PGRST116 is "not found" error, which is expected for non-existent users
+    if (error) {
       console.error('Database error:', error)
-      return res.status(500).json({ 
-        success: false, 
-        error: 'Database error' 
+      return res.status(500).json({
+        success: false,
+        error: 'Database error'
       })
     }
 
-    if (!user) {
-      // User doesn't exist - they need to sign up
-      return res.status(200).json({ 
-        success: false, 
-        error: 'User not found' 
-      })
-    }
+    // Authenticated users without a plan row are on the free plan
+    const plan = getPlan(user?.plan)
 
-    // User exists - return their plan and status
-    const isPaid = user.plan === 'founding'
-    
-    return res.status(200).json({ 
+    return res.status(200).json({
       success: true,
-      status: user.status || 'inactive',  // Add this line
-      isPaid,
-      plan: user.plan,
-      email: user.email
+      entitlement: {
+        userId,
+        email: user?.email || email || null,
+        plan: plan.id,
+        planName: plan.name,
+        status: user?.status || 'inactive',
+        isPaid: plan.isPaid,
+        features: plan.features
+      }
     })
 
   } catch (error) {
     console.error('API error:', error)
-    return res.status(500).json({ 
-      success: false, 
-      error: 'Internal server error' 
+    return res.status(500).json({
+      success: false,
+      error: 'Internal server error'
     })
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,104 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createHash } from 'crypto'
+import { supabaseAdmin as supabase } from '@/lib/supabase-admin'
+import { authenticateRequest } from '@/lib/api-auth'
+import { handleCors } from '@/lib/cors'
+import { getPlan, getPlanEntitlements, type Entitlements } from '@/lib/plans'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  entitlements?: Entitlements;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Strong ETag for a response body
+ */
+function computeEtag(body: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(body)).digest('base64url').slice(0, 27)
+  return `"${hash}"`
+}
+
+/**
+ * Check an If-None-Match header (which may list several tags) against an ETag
+ */
+function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+  if (!ifNoneMatch) return false
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag)
+}
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * GET /api/entitlements
+ *
+ * Returns the feature flags and limits granted by the authenticated user's
+ * plan. Responses carry an ETag; send it back in If-None-Match to get a 304
+ * when nothing has changed.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (handleCors(req, res, ['GET'])) {
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET')
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  try {
+    const auth = await authenticateRequest(req, { allowExtensionKey: true, scope: 'entitlements:read' })
+    if (!auth.ok) {
+      return res.status(auth.status).json({ success: false, error: auth.error })
+    }
+
+    const { data: user, error } = await supabase
+      .from('user_plan')
+      .select('plan, status')
+      .eq('id', auth.identity.userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Database error:', error)
+      return res.status(500).json({ success: false, error: 'Database error' })
+    }
+
+    // Users without a plan row are on the free plan
+    const plan = getPlan(user?.plan)
+    const entitlements: Entitlements = {
+      plan: plan.id,
+      planName: plan.name,
+      status: user?.status || 'inactive',
+      isPaid: plan.isPaid,
+      ...getPlanEntitlements(plan.id)
+    }
+
+    // Per-user data: cache privately, but always revalidate
+    const etag = computeEtag(entitlements)
+    res.setHeader('ETag', etag)
+    res.setHeader('Cache-Control', 'private, no-cache')
+
+    if (etagMatches(req.headers['if-none-match'], etag)) {
+      return res.status(304).end()
+    }
+
+    return res.status(200).json({ success: true, entitlements })
+
+  } catch (error) {
+    console.error('API error:', error)
+    return res.status(500).json({ success: false, error: 'Internal server error' })
+  }
+}
@@ -1,39 +1,63 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
-import { createClient } from '@supabase/supabase-js'
-
-// ============================================================================
-// SUPABASE CLIENT SETUP
-// ============================================================================
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
+import { supabaseAdmin as supabase } from '@/lib/supabase-admin'
+import { authenticateRequest } from '@/lib/api-auth'
+import { handleCors } from '@/lib/cors'
+import { enforceRateLimit, identityKeys, ipKey } from '@/lib/rate-limit'
+import { tryRecordOnboardingStep } from '@/lib/onboarding'
+import { isEventType, validateEventMetadata, type EventResult } from '@/lib/events'
+import { estimateClockOffset, isClientTime, resolveEventTimestamp } from '@/lib/event-timestamps'
 
 // ============================================================================
 // TYPE DEFINITIONS
 // ============================================================================
 
 interface EventData {
-  id: string;
+  id: string; // Client-generated; the same ID on a retry is stored once
   eventType: string;
   productId?: string;
   sessionId?: string;
-  metadata?: Record<string, any>;
-  timestamp: number;
+  metadata?: Record<string, unknown>; // Checked against EVENT_METADATA_SCHEMAS
+  timestamp: number; // Extension clock, ms since epoch
   retryCount: number;
 }
 
 interface ApiRequest {
-  events: EventData[];
-  userId: string;
+  events: unknown[]; // Each one is validated separately
+  userId?: string; // Legacy field; the verified credential is authoritative
+  sentAt?: number; // Extension clock when the batch was sent, for estimating its offset
 }
 
 interface ApiResponse {
   success: boolean;
   message?: string;
   error?: string;
-  processedCount?: number;
+  processedCount?: number; // Events stored by this request
+  duplicateCount?: number;
+  rejectedCount?: number;
+  results?: EventResult[]; // One per event, in request order
+  clockOffsetMs?: number; // Correction applied to this batch's timestamps
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Most events accepted per request
+const MAX_BATCH_SIZE = 100;
+
+// Longest client event, product and session IDs stored (VARCHAR(100) columns)
+const MAX_ID_LENGTH = 100;
+
+// Largest metadata object per event, measured as JSON
+const MAX_METADATA_BYTES = 8 * 1024;
+
+// Larger request bodies are refused by Next.js with 413 before the handler runs
+export const config = {
+  api: {
+    bodyParser: {
+      sizeLimit: '1mb',
+    },
+  },
 }
 
 // ============================================================================
@@ -41,71 +65,72 @@ interface ApiResponse {
 // ============================================================================
 
 /**
- * Validates the Authorization header and extracts user ID
+ * Validates event data structure
+ * @returns {string | null} The first problem found, or null if the event is well-formed
  */
-function validateAuthHeader(authHeader: string | undefined): string | null {
-  if (!authHeader) {
-    return null;
+function checkEvent(event: unknown): string | null {
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    return 'Event must be an object';
   }
-  
-  // Expect format: "Bearer <userId>"
-  const parts = authHeader.split(' ');
-  if (parts.length !== 2 || parts[0] !== 'Bearer') {
-    return null;
+
+  const fields = event as Record<string, unknown>;
+  if (typeof fields.id !== 'string' || fields.id.length === 0 || fields.id.length > MAX_ID_LENGTH) {
+    return `id must be a string of 1-${MAX_ID_LENGTH} characters`;
   }
-  
-  const userId = parts[1];
-  
-  // Basic UUID validation
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  if (!uuidRegex.test(userId)) {
-    return null;
+  if (typeof fields.eventType !== 'string') {
+    return 'eventType must be a string';
   }
-  
-  return userId;
-}
-
-/**
- * Validates event data structure
- */
-function validateEvent(event: any): event is EventData {
-  return (
-    typeof event === 'object' &&
-    typeof event.id === 'string' &&
-    typeof event.eventType === 'string' &&
-    typeof event.timestamp === 'number' &&
-    typeof event.retryCount === 'number' &&
-    (event.productId === undefined || typeof event.productId === 'string') &&
-    (event.sessionId === undefined || typeof event.sessionId === 'string') &&
-    (event.metadata === undefined || typeof event.metadata === 'object')
-  );
+  if (!isClientTime(fields.timestamp)) {
+    return 'timestamp must be a time in ms since epoch, between 2000 and 2100';
+  }
+  if (typeof fields.retryCount !== 'number') {
+    return 'retryCount must be a number';
+  }
+  for (const name of ['productId', 'sessionId']) {
+    const value = fields[name];
+    if (value !== undefined && (typeof value !== 'string' || value.length > MAX_ID_LENGTH)) {
+      return `${name} must be a string of at most ${MAX_ID_LENGTH} characters`;
+    }
+  }
+  if (fields.metadata !== undefined && Buffer.byteLength(JSON.stringify(fields.metadata)) > MAX_METADATA_BYTES) {
+    return `metadata must be at most ${MAX_METADATA_BYTES / 1024} KB`;
+  }
+  return null;
 }
 
 /**
- * Validates the request body
+ * Validates the request body (but not the events in it)
  */
-function validateRequestBody(body: any): body is ApiRequest {
+function validateRequestBody(body: unknown): body is ApiRequest {
+  if (typeof body !== 'object' || body === null) {
+    return false;
+  }
+  const { events, userId, sentAt } = body as Record<string, unknown>;
   return (
-    typeof body === 'object' &&
-    Array.isArray(body.events) &&
-    typeof body.userId === 'string' &&
-    body.events.length > 0 &&
-    body.events.length <= 100 && // Limit batch size
-    body.events.every(validateEvent)
+    Array.isArray(events) &&
+    events.length > 0 &&
+    events.length <= MAX_BATCH_SIZE &&
+    (userId === undefined || typeof userId === 'string') &&
+    (sentAt === undefined || isClientTime(sentAt))
   );
 }
 
 /**
  * Maps event data to Supabase table structure
+ * @param createdAt - When the event happened, after clock correction
+ * @param receivedAt - When the batch arrived
  */
-function mapEventToSupabase(event: EventData, userId: string) {
+function mapEventToSupabase(event: EventData, userId: string, createdAt: Date, receivedAt: Date) {
   return {
     user_id: userId,
+    client_event_id: event.id,
     event_type: event.eventType,
     product_id: event.productId || null,
     session_id: event.sessionId || null,
     metadata: event.metadata || {},
-    created_at: new Date(event.timestamp).toISOString(),
+    created_at: createdAt.toISOString(),
+    client_created_at: new Date(event.timestamp).toISOString(),
+    received_at: receivedAt.toISOString(),
     retry_count: event.retryCount,
     processing_status: 'completed' as const,
     processed_at: new Date().toISOString()
@@ -117,16 +142,14 @@ function mapEventToSupabase(event: EventData, userId: string) {
 // ============================================================================
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
-  // Add CORS headers to allow extension requests
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  
-  // Handle preflight requests from extension
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
+  // Only the extension and the site may call this from a browser
+  if (handleCors(req, res, ['POST'])) {
+    return;
   }
 
+  // Compared with the batch's sentAt to estimate the extension's clock offset
+  const receivedAt = Date.now();
+
   // Only allow POST requests
   if (req.method !== 'POST') {
     res.setHeader('Allow', 'POST');
@@ -136,34 +159,43 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
     });
   }
 
+  // Throttle by address before doing any work
+  if (!(await enforceRateLimit(res, 'events', [ipKey(req)]))) {
+    return;
+  }
+
   try {
-    // Validate Authorization header
-    const userId = validateAuthHeader(req.headers.authorization);
-    if (!userId) {
-      console.error('Invalid or missing Authorization header');
-      return res.status(401).json({ 
+    // Verify the credential and take the user ID from it
+    const auth = await authenticateRequest(req, { allowExtensionKey: true, scope: 'events:write' });
+    if (!auth.ok) {
+      console.error('Authentication failed:', auth.error);
+      return res.status(auth.status).json({ 
         success: false, 
-        error: 'Invalid or missing Authorization header' 
+        error: auth.error 
       });
     }
+    if (!(await enforceRateLimit(res, 'events', identityKeys(auth.identity)))) {
+      return;
+    }
+    const { userId } = auth.identity;
 
     // Validate request body
     if (!validateRequestBody(req.body)) {
       console.error('Invalid request body:', req.body);
       return res.status(400).json({ 
         success: false, 
-        error: 'Invalid request body' 
+        error: `Invalid request body: expected 1-${MAX_BATCH_SIZE} events and an optional sentAt time` 
       });
     }
 
-    const { events, userId: bodyUserId } = req.body;
+    const { events, userId: bodyUserId, sentAt } = req.body;
 
-    // Ensure userId in body matches Authorization header
-    if (userId !== bodyUserId) {
-      console.error('User ID mismatch between header and body');
-      return res.status(400).json({ 
+    // Reject attempts to write events on behalf of another user
+    if (bodyUserId !== undefined && bodyUserId !== userId) {
+      console.error('User ID in body does not match authenticated user');
+      return res.status(403).json({ 
         success: false, 
-        error: 'User ID mismatch' 
+        error: 'User ID does not match credentials' 
       });
     }
 
@@ -182,31 +214,109 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse<
       });
     }
 
-    // Map events to Supabase structure
-    const mappedEvents = events.map(event => mapEventToSupabase(event, userId));
+    // An extension sending events with a key is signed in, even though it
+    // never went through the handoff flow
+    if (auth.identity.method === 'extension_key') {
+      await tryRecordOnboardingStep(userId, 'extension_synced');
+    }
+
+    // Settle what can be decided before touching the database. Bad events
+    // are rejected one by one so they don't hold up the rest of the batch:
+    // unknown event types would fail the table's CHECK constraint, and
+    // metadata must match its type's schema. Timestamps are corrected by
+    // the batch's clock offset, then clamped or rejected if still outside
+    // the accepted window. Repeated IDs within the batch are stored once.
+    const results: EventResult[] = [];
+    const toStore: { event: EventData; createdAt: Date }[] = [];
+    const batchIds = new Set<string>();
+    const clockOffsetMs = estimateClockOffset(sentAt, receivedAt);
 
-    // Insert events into database using batch insert
-    const { data: insertedEvents, error: insertError } = await supabase
-      .from('event_logs')
-      .insert(mappedEvents)
-      .select('id');
+    events.forEach((item, index) => {
+      const problem = checkEvent(item);
+      if (problem) {
+        const id = (item as { id?: unknown } | null)?.id;
+        results.push({ index, id: typeof id === 'string' ? id : null, status: 'rejected', reason: problem });
+        return;
+      }
 
-    if (insertError) {
-      console.error('Database insert error:', insertError);
-      return res.status(500).json({ 
-        success: false, 
-        error: 'Failed to insert events' 
-      });
+      const event = item as EventData;
+      if (batchIds.has(event.id)) {
+        results.push({ index, id: event.id, status: 'duplicate' });
+        return;
+      }
+      if (!isEventType(event.eventType)) {
+        results.push({ index, id: event.id, status: 'rejected', reason: `Unknown event type: ${event.eventType}` });
+        return;
+      }
+      const errors = validateEventMetadata(event.eventType, event.metadata);
+      if (errors.length > 0) {
+        results.push({ index, id: event.id, status: 'rejected', reason: 'Invalid metadata', errors });
+        return;
+      }
+      const time = resolveEventTimestamp(event.timestamp, clockOffsetMs, receivedAt);
+      if (!time.ok) {
+        results.push({ index, id: event.id, status: 'rejected', reason: `Invalid timestamp: ${time.reason}` });
+        return;
+      }
+
+      batchIds.add(event.id);
+      toStore.push({ event, createdAt: time.createdAt });
+      results.push({ index, id: event.id, status: 'accepted' });
+    });
+
+    // Insert, skipping events already stored by an earlier attempt. Only
+    // newly inserted rows come back.
+    const insertedIds = new Set<string>();
+    if (toStore.length > 0) {
+      const { data: insertedEvents, error: insertError } = await supabase
+        .from('event_logs')
+        .upsert(toStore.map(({ event, createdAt }) => mapEventToSupabase(event, userId, createdAt, new Date(receivedAt))), {
+          onConflict: 'user_id,client_event_id',
+          ignoreDuplicates: true
+        })
+        .select('client_event_id');
+
+      if (insertError) {
+        console.error('Database insert error:', insertError);
+        return res.status(500).json({ 
+          success: false, 
+          error: 'Failed to insert events' 
+        });
+      }
+
+      for (const row of insertedEvents || []) {
+        insertedIds.add(row.client_event_id);
+      }
+      for (const result of results) {
+        if (result.status === 'accepted' && result.id !== null && !insertedIds.has(result.id)) {
+          result.status = 'duplicate';
+        }
+      }
+    }
+
+    const processedCount = results.filter(result => result.status === 'accepted').length;
+    const duplicateCount = results.filter(result => result.status === 'duplicate').length;
+    const rejectedCount = results.filter(result => result.status === 'rejected').length;
+
+    // The first sourced product completes onboarding
+    if (toStore.some(({ event }) => event.eventType === 'product_sourced' && insertedIds.has(event.id))) {
+      await tryRecordOnboardingStep(userId, 'first_product_sourced');
     }
 
     // Log successful processing
-    console.log(`Successfully processed ${events.length} events for user ${userId}`);
+    console.log(`Processed ${events.length} events for user ${userId}: ${processedCount} stored, ${duplicateCount} duplicate, ${rejectedCount} rejected${clockOffsetMs ? `, clock offset ${clockOffsetMs}ms` : ''}`);
 
-    // Return success response
-    return res.status(200).json({
+    // Return per-event results so the extension knows what to drop from its
+    // queue: 200 when every event was stored or already there, 207 when some
+    // were rejected
+    return res.status(rejectedCount > 0 ? 207 : 200).json({
       success: true,
-      message: `Successfully processed ${events.length} events`,
-      processedCount: events.length
+      message: `Successfully processed ${processedCount} events`,
+      processedCount,
+      duplicateCount,
+      rejectedCount,
+      results,
+      clockOffsetMs
     });
 
   } catch (error) {
@@ -0,0 +1,41 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { isExtensionKeyId, revokeExtensionKey, type ExtensionKey } from '@/lib/extension-keys'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  key?: ExtensionKey;
+}
+
+/**
+ * DELETE /api/extension-keys/:id - Revoke one of the signed-in user's keys
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'DELETE') {
+    res.setHeader('Allow', 'DELETE');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const keyId = req.query.id;
+  if (!isExtensionKeyId(keyId)) {
+    return res.status(400).json({ success: false, error: 'Invalid key ID' });
+  }
+
+  try {
+    const key = await revokeExtensionKey(auth.identity.userId, keyId);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Key not found' });
+    }
+
+    return res.status(200).json({ success: true, key });
+  } catch (error) {
+    console.error('Revoke extension key error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
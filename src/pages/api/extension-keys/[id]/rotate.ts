@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { isExtensionKeyId, rotateExtensionKey, type ExtensionKey } from '@/lib/extension-keys'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  key?: ExtensionKey;
+  secret?: string; // Plaintext replacement key, only returned once
+}
+
+/**
+ * POST /api/extension-keys/:id/rotate - Revoke a key and issue a replacement
+ * with the same label
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const keyId = req.query.id;
+  if (!isExtensionKeyId(keyId)) {
+    return res.status(400).json({ success: false, error: 'Invalid key ID' });
+  }
+
+  try {
+    const issued = await rotateExtensionKey(auth.identity.userId, keyId);
+    if (!issued) {
+      return res.status(404).json({ success: false, error: 'Key not found' });
+    }
+
+    return res.status(201).json({ success: true, key: issued.key, secret: issued.secret });
+  } catch (error) {
+    console.error('Rotate extension key error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,71 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  createExtensionKey,
+  listExtensionKeys,
+  MAX_ACTIVE_KEYS,
+  type ExtensionKey,
+} from '@/lib/extension-keys'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  keys?: ExtensionKey[];
+  key?: ExtensionKey;
+  secret?: string; // Plaintext key, only returned when a key is created
+}
+
+const MAX_LABEL_LENGTH = 100;
+const DEFAULT_LABEL = 'Chrome extension';
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * GET  /api/extension-keys - List the signed-in user's active keys
+ * POST /api/extension-keys - Issue a new key ({ label?: string })
+ *
+ * Requires a Supabase session token; extension keys cannot manage keys.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+  const { userId } = auth.identity;
+
+  try {
+    const activeKeys = await listExtensionKeys(userId);
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, keys: activeKeys });
+    }
+
+    if (activeKeys.length >= MAX_ACTIVE_KEYS) {
+      return res.status(409).json({
+        success: false,
+        error: `You can have at most ${MAX_ACTIVE_KEYS} connected devices. Revoke one to add another.`
+      });
+    }
+
+    const rawLabel = typeof req.body?.label === 'string' ? req.body.label.trim() : '';
+    const label = (rawLabel || DEFAULT_LABEL).slice(0, MAX_LABEL_LENGTH);
+
+    const issued = await createExtensionKey(userId, label);
+
+    return res.status(201).json({ success: true, key: issued.key, secret: issued.secret });
+  } catch (error) {
+    console.error('Extension keys API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
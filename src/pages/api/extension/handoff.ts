@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { createHandoffCode } from '@/lib/extension-tokens'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  code?: string;
+  expiresAt?: string;
+}
+
+/**
+ * POST /api/extension/handoff - Mint a one-time code the extension can
+ * exchange at /api/extension/token for its own token
+ *
+ * Requires a Supabase session token; extension credentials cannot mint codes.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  try {
+    const { code, expiresAt } = await createHandoffCode(auth.identity.userId);
+
+    res.setHeader('Cache-Control', 'no-store');
+    return res.status(201).json({ success: true, code, expiresAt });
+  } catch (error) {
+    console.error('Create handoff code error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
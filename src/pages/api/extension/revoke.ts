@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { handleCors } from '@/lib/cors'
+import {
+  revokeExtensionToken,
+  revokeExtensionTokenByRefreshToken,
+  revokeUserExtensionTokens,
+} from '@/lib/extension-tokens'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  revoked?: number;
+}
+
+/**
+ * POST /api/extension/revoke
+ *
+ * Revokes extension tokens. What gets revoked depends on the credential:
+ * - { refresh_token } in the body - that token (the extension signing out)
+ * - an extension access token - that token
+ * - a Supabase session token - every extension token the user has (the site
+ *   signing out)
+ *
+ * Extension API keys are managed through /api/extension-keys instead.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (handleCors(req, res, ['POST'])) {
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const refreshToken = req.body?.refresh_token;
+    if (typeof refreshToken === 'string' && refreshToken) {
+      const revoked = await revokeExtensionTokenByRefreshToken(refreshToken);
+      return res.status(200).json({ success: true, revoked });
+    }
+
+    const auth = await authenticateRequest(req, { allowExtensionKey: true });
+    if (!auth.ok) {
+      return res.status(auth.status).json({ success: false, error: auth.error });
+    }
+
+    const { identity } = auth;
+    if (identity.method === 'extension_key') {
+      return res.status(403).json({ success: false, error: 'Extension keys cannot revoke tokens' });
+    }
+
+    const revoked = identity.method === 'extension_token' && identity.tokenId
+      ? await revokeExtensionToken(identity.tokenId)
+      : await revokeUserExtensionTokens(identity.userId);
+
+    return res.status(200).json({ success: true, revoked });
+  } catch (error) {
+    console.error('Revoke extension token error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
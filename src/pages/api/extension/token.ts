@@ -0,0 +1,103 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { handleCors } from '@/lib/cors'
+import {
+  exchangeHandoffCode,
+  refreshExtensionToken,
+  type ExtensionScope,
+  type IssuedExtensionToken,
+} from '@/lib/extension-tokens'
+import { tryRecordOnboardingStep } from '@/lib/onboarding'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  userId?: string;
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+  refreshExpiresAt?: string;
+  scopes?: ExtensionScope[];
+}
+
+/**
+ * Request body. `code` is required for the handoff_code grant and
+ * `refresh_token` for the refresh_token grant.
+ */
+interface TokenRequest {
+  grant_type?: unknown;
+  code?: unknown;
+  refresh_token?: unknown;
+}
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * POST /api/extension/token
+ *
+ * Issues the extension its own scoped token:
+ * - { grant_type: 'handoff_code', code } - redeem a one-time handoff code
+ * - { grant_type: 'refresh_token', refresh_token } - rotate an expiring token
+ *
+ * The code or refresh token is the credential, so no Authorization header
+ * is needed. Use the returned access token as a bearer token on extension
+ * routes until expiresAt, then refresh.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (handleCors(req, res, ['POST'])) {
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Tokens must never be cached
+  res.setHeader('Cache-Control', 'no-store');
+
+  const body: TokenRequest = req.body && typeof req.body === 'object' ? req.body : {};
+
+  try {
+    let issued: IssuedExtensionToken | null;
+
+    if (body.grant_type === 'handoff_code') {
+      if (typeof body.code !== 'string' || !body.code) {
+        return res.status(400).json({ success: false, error: 'code is required' });
+      }
+      issued = await exchangeHandoffCode(body.code);
+      if (!issued) {
+        return res.status(400).json({ success: false, error: 'Invalid, used or expired handoff code' });
+      }
+      await tryRecordOnboardingStep(issued.userId, 'extension_synced');
+    } else if (body.grant_type === 'refresh_token') {
+      if (typeof body.refresh_token !== 'string' || !body.refresh_token) {
+        return res.status(400).json({ success: false, error: 'refresh_token is required' });
+      }
+      issued = await refreshExtensionToken(body.refresh_token);
+      if (!issued) {
+        return res.status(400).json({ success: false, error: 'Invalid, revoked or expired refresh token' });
+      }
+    } else {
+      return res.status(400).json({ success: false, error: 'Unsupported grant_type' });
+    }
+
+    return res.status(200).json({
+      success: true,
+      userId: issued.userId,
+      accessToken: issued.accessToken,
+      refreshToken: issued.refreshToken,
+      expiresAt: issued.expiresAt,
+      refreshExpiresAt: issued.refreshExpiresAt,
+      scopes: issued.scopes,
+    });
+  } catch (error) {
+    console.error('Extension token error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
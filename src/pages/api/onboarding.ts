@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getOnboardingState, recordOnboardingStep, type OnboardingState } from '@/lib/onboarding'
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  onboarding?: OnboardingState;
+}
+
+// Extension versions look like "1.4.2" (manifest version strings)
+const EXTENSION_VERSION_PATTERN = /^[0-9A-Za-z.+-]{1,32}$/;
+
+// ============================================================================
+// MAIN API HANDLER
+// ============================================================================
+
+/**
+ * GET  /api/onboarding - The signed-in user's onboarding progress
+ * POST /api/onboarding - Record that the dashboard detected the extension
+ *                        ({ step: 'extension_installed', extensionVersion? })
+ *
+ * The other steps are recorded by the server when they happen (token
+ * exchange and event ingestion), so they can't be reported here.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+  const { userId } = auth.identity;
+
+  try {
+    if (req.method === 'POST') {
+      const { step, extensionVersion } = req.body || {};
+
+      if (step !== 'extension_installed') {
+        return res.status(400).json({ success: false, error: 'Only extension_installed can be reported' });
+      }
+      if (extensionVersion !== undefined && extensionVersion !== null &&
+          (typeof extensionVersion !== 'string' || !EXTENSION_VERSION_PATTERN.test(extensionVersion))) {
+        return res.status(400).json({ success: false, error: 'Invalid extensionVersion' });
+      }
+
+      await recordOnboardingStep(userId, step, extensionVersion);
+    }
+
+    const onboarding = await getOnboardingState(userId);
+    return res.status(200).json({ success: true, onboarding });
+  } catch (error) {
+    console.error('Onboarding API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getAppUrl } from '@/lib/app-url'
+import { emailKey, enforceRateLimit, ipKey } from '@/lib/rate-limit'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+}
+
+// Longest email address accepted (RFC 5321)
+const MAX_EMAIL_LENGTH = 254;
+
+/**
+ * POST /api/password-reset  { email }
+ *
+ * Sends a password reset link. Requests are limited per IP address and per
+ * email address, so the form can't be used to flood someone's inbox.
+ *
+ * The email is requested through a cookie-backed client, so the PKCE code
+ * verifier is set as a cookie on this response and the browser can complete
+ * the exchange on /auth/callback.
+ *
+ * The response is the same whether or not an account exists for the email.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await enforceRateLimit(res, 'password-reset', [ipKey(req)]))) {
+    return;
+  }
+
+  const email = typeof req.body?.email === 'string' ? req.body.email.trim() : '';
+  if (!email || email.length > MAX_EMAIL_LENGTH || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) {
+    return res.status(400).json({ success: false, error: 'Please enter a valid email address.' });
+  }
+
+  if (!(await enforceRateLimit(res, 'password-reset', [emailKey(email)]))) {
+    return;
+  }
+
+  try {
+    const supabase = createServerSupabaseClient({ req, res });
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${getAppUrl(req)}/auth/callback?type=recovery`,
+    });
+
+    if (error) {
+      console.error('Password reset error:', error.message);
+      // Supabase applies its own email rate limit
+      if (error.status === 429) {
+        return res.status(429).json({ success: false, error: 'Too many reset requests. Please try again later.' });
+      }
+      return res.status(500).json({ success: false, error: 'Could not send the reset email. Please try again.' });
+    }
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    console.error('Password reset API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { authenticateRequest } from '@/lib/api-auth'
+import {
+  DEFAULT_PAGE_SIZE,
+  getSourcedProducts,
+  MAX_PAGE,
+  MAX_PAGE_SIZE,
+  MAX_SEARCH_LENGTH,
+  PRODUCT_SORTS,
+  type ProductPage,
+  type ProductSort,
+} from '@/lib/products'
+
+interface ApiResponse extends Partial<ProductPage> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Parse a positive integer query parameter
+ */
+function positiveInt(value: string | string[] | undefined, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  return Number.isSafeInteger(number) && number > 0 ? number : null;
+}
+
+/**
+ * GET /api/products?search=&sort=last_seen|first_seen|view_count|product_id&direction=asc|desc&page=&pageSize=
+ *
+ * The distinct products the user has sourced, with first and last analyzed
+ * time, view count and the latest metadata from the extension. Defaults to
+ * the most recently analyzed first, 25 per page.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const auth = await authenticateRequest(req);
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error });
+  }
+
+  const { search, sort = 'last_seen', direction = 'desc' } = req.query;
+  if (search !== undefined && (typeof search !== 'string' || search.length > MAX_SEARCH_LENGTH)) {
+    return res.status(400).json({ success: false, error: `search must be at most ${MAX_SEARCH_LENGTH} characters` });
+  }
+  if (!PRODUCT_SORTS.includes(sort as ProductSort)) {
+    return res.status(400).json({ success: false, error: `sort must be one of ${PRODUCT_SORTS.join(', ')}` });
+  }
+  if (direction !== 'asc' && direction !== 'desc') {
+    return res.status(400).json({ success: false, error: 'direction must be asc or desc' });
+  }
+
+  const page = positiveInt(req.query.page, 1);
+  const pageSize = positiveInt(req.query.pageSize, DEFAULT_PAGE_SIZE);
+  if (!page || !pageSize || page > MAX_PAGE || pageSize > MAX_PAGE_SIZE) {
+    return res.status(400).json({ success: false, error: `page must be 1-${MAX_PAGE} and pageSize 1-${MAX_PAGE_SIZE}` });
+  }
+
+  try {
+    const result = await getSourcedProducts(auth.identity.userId, {
+      search,
+      sort: sort as ProductSort,
+      direction,
+      page,
+      pageSize
+    });
+
+    res.setHeader('Cache-Control', 'private, no-cache');
+    return res.status(200).json({ success: true, ...result });
+  } catch (error) {
+    console.error('Products API error:', error);
+    return res.status(500).json({ success: false, error: 'Internal server error' });
+  }
+}
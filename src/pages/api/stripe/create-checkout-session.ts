@@ -0,0 +1,87 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type Stripe from 'stripe'
+import stripe, { getStripePriceId } from '@/lib/stripe'
+import { DEFAULT_PAID_PLAN_ID, PLANS, getPlan, isPaidPlan } from '@/lib/plans'
+import { supabaseAdmin as supabase } from '@/lib/supabase-admin'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAppUrl } from '@/lib/app-url'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  url?: string;
+}
+
+/**
+ * POST /api/stripe/create-checkout-session
+ *
+ * Creates a Stripe Checkout Session for the signed-in user and returns its
+ * URL. The Supabase user ID is attached as client_reference_id and metadata
+ * (including on the payment) so every webhook event can be matched back to
+ * the account.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const auth = await authenticateRequest(req)
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error })
+  }
+  const { userId, email } = auth.identity
+
+  const plan = PLANS[DEFAULT_PAID_PLAN_ID]
+  const priceId = getStripePriceId(plan.id)
+  if (!priceId) {
+    console.error(`Stripe price ID for the ${plan.id} plan is not configured`)
+    return res.status(500).json({ success: false, error: 'Checkout is not configured' })
+  }
+
+  try {
+    const { data: current, error } = await supabase
+      .from('user_plan')
+      .select('plan, status, stripe_customer_id')
+      .eq('id', userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error looking up user plan:', error)
+      return res.status(500).json({ success: false, error: 'Database lookup failed' })
+    }
+
+    if (isPaidPlan(current?.plan) && current?.status === 'active') {
+      return res.status(409).json({ success: false, error: `You already have ${getPlan(current.plan).name} access` })
+    }
+
+    const appUrl = getAppUrl(req)
+    const metadata = { user_id: userId, plan: plan.id }
+
+    const params: Stripe.Checkout.SessionCreateParams = {
+      mode: 'payment',
+      line_items: [{ price: priceId, quantity: 1 }],
+      client_reference_id: userId,
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: `${appUrl}/dashboard?checkout=success&session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${appUrl}/dashboard?checkout=canceled`,
+    }
+
+    // Reuse the existing Stripe customer, otherwise have Checkout create one
+    // so the account can use the billing portal afterwards
+    if (current?.stripe_customer_id) {
+      params.customer = current.stripe_customer_id
+    } else {
+      params.customer_email = email
+      params.customer_creation = 'always'
+    }
+
+    const session = await stripe.checkout.sessions.create(params)
+
+    return res.status(200).json({ success: true, url: session.url! })
+  } catch (error) {
+    console.error('Error creating checkout session:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create checkout session' })
+  }
+}
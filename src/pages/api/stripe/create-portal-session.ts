@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import stripe from '@/lib/stripe'
+import { supabaseAdmin as supabase } from '@/lib/supabase-admin'
+import { authenticateRequest } from '@/lib/api-auth'
+import { getAppUrl } from '@/lib/app-url'
+
+interface ApiResponse {
+  success: boolean;
+  error?: string;
+  url?: string;
+}
+
+/**
+ * POST /api/stripe/create-portal-session
+ *
+ * Creates a Stripe Billing Portal session for the signed-in user's Stripe
+ * customer and returns its URL. The client redirects the browser there.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ApiResponse>) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST')
+    return res.status(405).json({ success: false, error: 'Method not allowed' })
+  }
+
+  const auth = await authenticateRequest(req)
+  if (!auth.ok) {
+    return res.status(auth.status).json({ success: false, error: auth.error })
+  }
+
+  try {
+    const { data: plan, error } = await supabase
+      .from('user_plan')
+      .select('stripe_customer_id')
+      .eq('id', auth.identity.userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error looking up user plan:', error)
+      return res.status(500).json({ success: false, error: 'Database lookup failed' })
+    }
+
+    if (!plan?.stripe_customer_id) {
+      return res.status(404).json({ success: false, error: 'No billing account found for this user' })
+    }
+
+    const session = await stripe.billingPortal.sessions.create({
+      customer: plan.stripe_customer_id,
+      return_url: `${getAppUrl(req)}/dashboard`,
+    })
+
+    return res.status(200).json({ success: true, url: session.url })
+  } catch (error) {
+    console.error('Error creating billing portal session:', error)
+    return res.status(500).json({ success: false, error: 'Failed to create billing portal session' })
+  }
+}
@@ -1,7 +1,9 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { buffer } from 'micro'
 import Stripe from 'stripe'
-import { createClient } from "@supabase/supabase-js"
+import stripe, { webhookSecret } from '@/lib/stripe'
+import { handleStripeEvent } from '@/lib/stripe-webhook'
+import { recordEventOutcome, recordEventReceived } from '@/lib/stripe-events'
 
 export const config = {
   api: {
@@ -9,23 +11,6 @@ export const config = {
   },
 }
 
-const stripe = new Stripe(
-  process.env.NEXT_PUBLIC_IS_TESTING === "true"
-    ? process.env.TEST_STRIPE_SECRET_KEY!
-    : process.env.STRIPE_SECRET_KEY!,
-  { apiVersion: "2025-06-30.basil" }
-)
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
-
-const webhookSecret =
-  process.env.NEXT_PUBLIC_IS_TESTING === "true"
-    ? process.env.TEST_STRIPE_WEBHOOK_SECRET!
-    : process.env.STRIPE_WEBHOOK_SECRET!
-
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     res.setHeader("Allow", "POST");
@@ -43,63 +28,35 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       sig,
       webhookSecret
     )
-  } catch (err: any) {
-    console.error('Webhook Error:', err.message)
-    return res.status(400).send(`Webhook Error: ${err.message}`)
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : 'Invalid signature'
+    console.error('Webhook Error:', message)
+    return res.status(400).send(`Webhook Error: ${message}`)
   }
 
-  if (event.type === 'checkout.session.completed') {
-    const session = event.data.object as Stripe.Checkout.Session
-  
-    // Extract user ID from client_reference_id
-    const userId = session.client_reference_id;
-    const customerEmail = session.customer_details?.email;
-    const customerName = session.customer_details?.name;
-
-    // Check if user exists in database
-    const { data: existingUser, error: lookupError } = await supabase
-      .from('user_plan')
-      .select('*')
-      .eq('id', userId)
-      .single();
-
-    if (lookupError && lookupError.code !== 'PGRST116') {
-      console.error('Error looking up user:', lookupError);
-      return res.status(500).json({ error: 'Database lookup failed' });
+  // Record the delivery; Stripe retries mean the same event can arrive twice
+  try {
+    const decision = await recordEventReceived(event)
+    if (decision === 'duplicate') {
+      return res.status(200).json({ received: true, duplicate: true })
     }
+  } catch (error) {
+    console.error(`Error recording Stripe event ${event.id}:`, error)
+    return res.status(500).json({ error: 'Failed to record event' })
+  }
 
-    // Update or insert user plan
-    if (existingUser) {
-      // Update existing user plan
-      const { error: planError } = await supabase
-        .from('user_plan')
-        .update({ 
-          plan: 'founding',
-          last_updated: new Date().toISOString()
-        })
-        .eq('id', userId);
-
-      if (planError) {
-        console.error('Error updating user plan:', planError);
-        return res.status(500).json({ error: 'Failed to update user plan' });
-      }
-    } else {
-      // Insert new user plan
-      const { error: insertError } = await supabase
-        .from('user_plan')
-        .insert({
-          id: userId,
-          plan: 'founding',
-          created_at: new Date().toISOString(),
-          last_updated: new Date().toISOString()
-        });
-
-      if (insertError) {
-        console.error('Error inserting user plan:', insertError);
-        return res.status(500).json({ error: 'Failed to insert user plan' });
-      }
-    }
-  
-    return res.status(200).json({ received: true })
+  try {
+    const outcome = await handleStripeEvent(event)
+    await recordEventOutcome(event.id, outcome)
+
+    // Acknowledge every verified event, including types we don't act on,
+    // so Stripe doesn't keep retrying them
+    return res.status(200).json({ received: true, outcome })
+  } catch (error) {
+    // Non-2xx makes Stripe retry the delivery later
+    console.error(`Error handling ${event.type} (${event.id}):`, error)
+    const message = error instanceof Error ? error.message : JSON.stringify(error)
+    await recordEventOutcome(event.id, 'failed', message)
+    return res.status(500).json({ error: 'Webhook handler failed' })
   }
-}
\ No newline at end of file
+}
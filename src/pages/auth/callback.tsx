@@ -22,8 +22,8 @@
 
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { useRouter } from 'next/router';
-import { supabase } from '@/lib/supabase';
-import { syncAuthWithExtension } from '@/lib/auth-helpers';
+import { supabase, ensureSessionPersistence } from '@/lib/supabase';
+import { syncAuthWithExtension } from '@/lib/extension';
 import Head from 'next/head';
 
 type AuthState = 'processing' | 'confirmed' | 'error' | 'password_reset' | 'expired_recovery';
@@ -122,37 +122,13 @@ export default function AuthCallback() {
     }
   };
 
-  // Attempt to get or establish session
+  // Attempt to get or establish session, refreshing it if it is about to expire
   const establishSession = async (): Promise<boolean> => {
-    try {
-      
-      // First, try to get the current session
-      const { data: { session: currentSession } } = await supabase.auth.getSession();
-      
-      if (currentSession) {
-        return true;
-      }
-
-      // If no session, try to refresh to establish one
-      const { data: { session: refreshedSession }, error: refreshError } = await supabase.auth.refreshSession();
-
-      if (refreshError) {
-        console.error('[Auth Callback] Session refresh error:', refreshError);
-        return false;
-      }
-
-      if (refreshedSession) {
-        return true;
-      }
-
-      // Final attempt: check if session was established via URL processing
-      const { data: { session: finalSession } } = await supabase.auth.getSession();
-
-      return !!finalSession;
-    } catch (error) {
-      console.error('[Auth Callback] Session establishment error:', error);
-      return false;
+    const result = await ensureSessionPersistence();
+    if (result.error) {
+      console.error('[Auth Callback] Session establishment error:', result.error);
     }
+    return result.success;
   };
 
   // Handle successful authentication
@@ -168,12 +144,10 @@ export default function AuthCallback() {
       const userId = session.user.id;
       const userMetadata = session.user.user_metadata;
 
-      // Sync authentication with Chrome extension
-      try {
-        await syncAuthWithExtension(session.user);
-      } catch (error) {
-        console.warn('[Auth Callback] Failed to sync with extension:', error);
-        // Don't fail the auth flow if extension sync fails
+      // Sync authentication with Chrome extension (never fails the auth flow)
+      const sync = await syncAuthWithExtension();
+      if (!sync.ok && sync.reason !== 'unavailable' && sync.reason !== 'not_installed') {
+        console.warn('[Auth Callback] Failed to sync with extension:', sync.reason, sync.error);
       }
 
       if (userId) {
@@ -1,26 +1,27 @@
 import React, { useState, useEffect } from 'react';
+import type { GetServerSideProps } from 'next';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
-import { signOut, getUserProfile, getUserPlan, type UserProfile, type UserPlan, checkAuthStatus } from '@/lib/supabase';
-import { notifyExtensionLogout } from '@/lib/auth-helpers';
+import Link from 'next/link';
+import { signOut, getUserProfile, getUserPlan, type UserProfile, type UserPlan } from '@/lib/supabase';
+import { requirePageAuth } from '@/lib/supabase-server';
+import { handshake, notifyExtensionLogout, notifyPlanChanged, syncAuthWithExtension } from '@/lib/extension';
 import type { User } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { authorizedFetch } from '@/lib/api-client';
+import { startCheckout } from '@/lib/checkout';
+import { DEFAULT_PAID_PLAN_ID, FEATURES, PLANS, formatAmount, getPlan, getPlanEntitlements, type Entitlements, type FeatureId } from '@/lib/plans';
+import type { OnboardingState } from '@/lib/onboarding';
+import type { ActivitySummary, AnalyticsSummary } from '@/lib/analytics';
+import ConnectedDevicesPanel from '@/components/dashboard/ConnectedDevicesPanel';
+import ActivityHeatmap from '@/components/dashboard/ActivityHeatmap';
+import TrendsPanel from '@/components/dashboard/TrendsPanel';
 
-// Chrome extension types
-declare global {
-  interface Window {
-    chrome?: {
-      runtime?: {
-        sendMessage?: (extensionId: string, message: any, callback?: (response: any) => void) => void;
-        lastError?: { message: string };
-      };
-    };
-  }
-}
+// How often to re-check onboarding progress until every step is done
+const ONBOARDING_POLL_MS = 15000;
 
-const chrome = typeof window !== 'undefined' ? window.chrome : undefined;
-
-const EXTENSION_ID = 'oeoabefdhedmaeoghdmbcechbiepmfpc';
+// Chrome Web Store listing for the extension
+const EXTENSION_STORE_URL = 'https://chromewebstore.google.com/detail/nexsellpro/oeoabefdhedmaeoghdmbcechbiepmfpc';
 
 
 
@@ -46,135 +47,87 @@ async function updateUserStatus(email: string) {
 }
 
 
-export default function DashboardPage() {
+interface DashboardPageProps {
+  user: User;
+  userProfile: UserProfile | null;
+  userPlan: UserPlan | null;
+}
+
+/**
+ * Only signed-in users get past this: the session cookie is verified on the
+ * server and the profile and plan are loaded before the page renders.
+ */
+export const getServerSideProps: GetServerSideProps<DashboardPageProps> = async (context) => {
+  const auth = await requirePageAuth(context);
+  if (!auth.ok) {
+    return { redirect: auth.redirect };
+  }
+
+  const [userProfile, userPlan] = await Promise.all([
+    getUserProfile(auth.user.id, auth.supabase),
+    getUserPlan(auth.user.id, auth.supabase)
+  ]);
+
+  return {
+    props: { user: auth.user, userProfile, userPlan }
+  };
+};
+
+export default function DashboardPage({ user, userProfile, userPlan }: DashboardPageProps) {
   const router = useRouter();
-  const [user, setUser] = useState<User | null>(null);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [userPlan, setUserPlan] = useState<UserPlan | null>(null);
-  const [loading, setLoading] = useState(true);
   const [signingOut, setSigningOut] = useState(false);
+  const [openingPortal, setOpeningPortal] = useState(false);
+  const [billingError, setBillingError] = useState<string | null>(null);
+  const [startingCheckout, setStartingCheckout] = useState(false);
+  const [entitlements, setEntitlements] = useState<Entitlements | null>(null);
+  const [onboarding, setOnboarding] = useState<OnboardingState | null>(null);
+  // null while the handshake is in flight
+  const [extensionDetected, setExtensionDetected] = useState<boolean | null>(null);
+  const [extensionVersion, setExtensionVersion] = useState<string | null>(null);
   const [analytics, setAnalytics] = useState({
     minutesSourcingThisWeek: 0,
     productsAnalyzedToday: 0,
     totalProductsAnalyzed: 0,
-    currentStreak: 0
+    currentStreak: 0,
+    longestStreak: 0
   });
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [activity, setActivity] = useState<ActivitySummary | null>(null);
 
-  // Environment-aware Stripe payment link (runtime evaluation)
-  const isTesting = process.env.NEXT_PUBLIC_IS_TESTING === "true";
-  const isProd = process.env.NODE_ENV === "production" && !isTesting;
-  const stripeLink = isProd
-    ? "https://buy.stripe.com/bJeeVddD856nfzCc0b6Zy00" // Live
-    : "https://buy.stripe.com/test_bJeeVddD856nfzCc0b6Zy00"; // Test
+  // Result of a Stripe Checkout redirect back to the dashboard
+  const checkoutResult = router.query.checkout;
 
-  // Check authentication and load user data on page load
+  // Load analytics and entitlements once the page is up; the user, profile
+  // and plan arrive as props from getServerSideProps
   useEffect(() => {
-    async function checkAuthAndLoadData() {
-      try {
-        // Check authentication status first
-        const authStatus = await checkAuthStatus();
-        
-        if (!authStatus.isAuthenticated || !authStatus.user) {
-          // No valid session, redirect to login
-  
-          router.replace('/login');
-          return;
-        }
-
-        // User is authenticated, set user data
-        setUser(authStatus.user);
-        
-        // Fetch analytics data
-        fetchUserAnalytics(authStatus.user.id);
-        
-        // Fetch user profile and plan
-        const [profile, plan] = await Promise.all([
-          getUserProfile(authStatus.user.id),
-          getUserPlan(authStatus.user.id)
-        ]);
-        setUserProfile(profile);
-        setUserPlan(plan);
-        
-        // Debug logging for plan data
-        console.log('[Dashboard] User plan data:', {
-          userId: authStatus.user.id,
-          plan: plan,
-          planType: plan?.plan,
-          isFounding: plan?.plan?.toLowerCase() === 'founding'
-        });
-        
-      } catch (error) {
-        console.error('Failed to check authentication or load user data:', error);
-        // On error, redirect to login for security
-        router.replace('/login');
-      } finally {
-        setLoading(false);
-      }
-    }
-    
-    checkAuthAndLoadData();
-  }, [router]);
+    fetchUserAnalytics();
+    fetchActivity();
+    fetchEntitlements();
+    fetchOnboarding();
+  }, [user.id]);
 
-  // Fetch user analytics data from event_logs table
-  // This function retrieves user activity metrics including:
+  // Fetch the progress card numbers, aggregated on the server:
   // - Minutes spent sourcing this week (from session_end events)
   // - Products analyzed today (from product_sourced events)
   // - Total products analyzed (all time count)
-  // - Current streak (placeholder for future implementation)
-  async function fetchUserAnalytics(userId: string) {
+  // - Current and longest day streaks
+  async function fetchUserAnalytics() {
     setAnalyticsLoading(true);
     try {
-      // Get this week's sessions
-      const weekAgo = new Date();
-      weekAgo.setDate(weekAgo.getDate() - 7);
-      
-      const { data: sessions, error: sessionsError } = await supabase
-        .from('event_logs')
-        .select('metadata')
-        .eq('user_id', userId)
-        .eq('event_type', 'session_end')
-        .gte('created_at', weekAgo.toISOString());
-
-      if (sessionsError) {
-        console.error('Error fetching sessions:', sessionsError);
-      }
-
-      const minutesThisWeek = sessions?.reduce((total, session) => {
-        return total + (session.metadata?.sessionLength || 0);
-      }, 0) || 0;
-
-      // Get today's products
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const { data: todayProducts, error: todayError } = await supabase
-        .from('event_logs')
-        .select('product_id')
-        .eq('user_id', userId)
-        .eq('event_type', 'product_sourced')
-        .gte('created_at', today.toISOString());
-
-      if (todayError) {
-        console.error('Error fetching today\'s products:', todayError);
-      }
-
-      // Get total products
-      const { count: totalProducts, error: totalError } = await supabase
-        .from('event_logs')
-        .select('*', { count: 'exact', head: true })
-        .eq('user_id', userId)
-        .eq('event_type', 'product_sourced');
-
-      if (totalError) {
-        console.error('Error fetching total products:', totalError);
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await authorizedFetch(`/api/analytics/summary?tz=${encodeURIComponent(timeZone)}`);
+      const result = await response.json();
+      if (!response.ok || !result.summary) {
+        throw new Error(result.error || 'Failed to load analytics');
       }
 
+      const summary: AnalyticsSummary = result.summary;
       setAnalytics({
-        minutesSourcingThisWeek: Math.round(minutesThisWeek),
-        productsAnalyzedToday: todayProducts?.length || 0,
-        totalProductsAnalyzed: totalProducts || 0,
-        currentStreak: 0 // Simplified for now
+        minutesSourcingThisWeek: summary.minutesSourced,
+        productsAnalyzedToday: summary.productsToday,
+        totalProductsAnalyzed: summary.totalProducts,
+        currentStreak: summary.currentStreak,
+        longestStreak: summary.longestStreak
       });
     } catch (error) {
       console.error('Error fetching analytics:', error);
@@ -183,63 +136,124 @@ export default function DashboardPage() {
         minutesSourcingThisWeek: 0,
         productsAnalyzedToday: 0,
         totalProductsAnalyzed: 0,
-        currentStreak: 0
+        currentStreak: 0,
+        longestStreak: 0
       });
     } finally {
       setAnalyticsLoading(false);
     }
   }
 
-  // Send user info to extension
-  useEffect(() => {
-    if (user?.email && userPlan) {
-      console.log('[NexSellPro] Attempting to sync with extension...');
-      
-      // Check if extension messaging is available
-      if (chrome?.runtime?.sendMessage) {
-        // Send auth data to extension
-        chrome.runtime.sendMessage!(
-          EXTENSION_ID,
-          {
-            type: 'AUTH_SUCCESS',
-            data: {
-              userId: user.id,
-              email: user.email,
-              plan: userPlan.plan?.toLowerCase() || 'free',
-              firstName: userProfile?.first_name || '',
-              lastName: userProfile?.last_name || '',
-              authenticatedAt: new Date().toISOString()
-            }
-          },
-          (response) => {
-            if (chrome.runtime?.lastError) {
-              console.log('[NexSellPro] Extension not detected:', chrome.runtime.lastError.message);
-            } else {
-              console.log('[NexSellPro] Extension sync successful!', response);
-            }
-          }
-        );
-      } else {
-        console.log('[NexSellPro] Chrome extension API not available');
+  // Fetch the past year of activity for the calendar, in the browser's time zone
+  async function fetchActivity() {
+    try {
+      const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await authorizedFetch(`/api/analytics/activity?tz=${encodeURIComponent(timeZone)}`);
+      const result = await response.json();
+      if (!response.ok || !result.activity) {
+        throw new Error(result.error || 'Failed to load activity');
+      }
+      setActivity(result.activity);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+    }
+  }
+
+  // Fetch the feature flags and limits the extension also uses
+  async function fetchEntitlements() {
+    try {
+      const response = await authorizedFetch('/api/entitlements');
+      const result = await response.json();
+      if (!response.ok || !result.entitlements) {
+        throw new Error(result.error || 'Failed to load entitlements');
+      }
+      setEntitlements(result.entitlements);
+    } catch (error) {
+      console.error('Error fetching entitlements:', error);
+    }
+  }
+
+  // Load the user's onboarding progress
+  async function fetchOnboarding() {
+    try {
+      const response = await authorizedFetch('/api/onboarding');
+      const result = await response.json();
+      if (!response.ok || !result.onboarding) {
+        throw new Error(result.error || 'Failed to load onboarding progress');
+      }
+      setOnboarding(result.onboarding);
+    } catch (error) {
+      console.error('Error fetching onboarding progress:', error);
+    }
+  }
+
+  // Record that this browser has the extension, with the version it reported
+  async function reportExtensionInstalled(version: string | null) {
+    try {
+      const response = await authorizedFetch('/api/onboarding', {
+        method: 'POST',
+        body: JSON.stringify({ step: 'extension_installed', extensionVersion: version })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.onboarding) {
+        throw new Error(result.error || 'Failed to record extension install');
       }
+      setOnboarding(result.onboarding);
+    } catch (error) {
+      console.error('Error recording extension install:', error);
+    }
+  }
+
+  // Detect the extension, then share the login with it via a one-time
+  // handoff code. The server marks the sync step when the code is redeemed.
+  useEffect(() => {
+    let cancelled = false;
+
+    async function connectExtension() {
+      const connected = await handshake();
+      if (cancelled) return;
+
+      setExtensionDetected(connected.ok);
+      if (!connected.ok) return;
+
+      const version = connected.reply.extensionVersion ?? null;
+      setExtensionVersion(version);
+      await reportExtensionInstalled(version);
+      await syncAuthWithExtension();
+    }
+
+    connectExtension();
+    return () => {
+      cancelled = true;
+    };
+  }, [user.id]);
+
+  // Keep checking until every step is done, so each one ticks off as it
+  // happens (the sync and first product are recorded by the extension's
+  // own requests)
+  const onboardingCompleted = onboarding?.completed ?? false;
+  useEffect(() => {
+    if (onboardingCompleted) return;
+
+    const interval = setInterval(() => {
+      if (!document.hidden) fetchOnboarding();
+    }, ONBOARDING_POLL_MS);
+    return () => clearInterval(interval);
+  }, [onboardingCompleted]);
+
+  // The plan can change after the page was rendered (e.g. the checkout
+  // webhook landed); pass the new entitlements on to the extension
+  useEffect(() => {
+    if (entitlements && entitlements.plan !== getPlan(userPlan?.plan).id) {
+      notifyPlanChanged(entitlements);
     }
-  }, [user, userPlan, userProfile]);
+  }, [entitlements, userPlan]);
 
   // Handle sign out
   async function handleSignOut() {
     setSigningOut(true);
     try {
-      // Notify extension about logout
-      if (chrome?.runtime?.sendMessage) {
-        chrome.runtime.sendMessage(
-          EXTENSION_ID,
-          { type: 'LOGOUT' },
-          (response) => {
-            console.log('[NexSellPro] Extension notified of logout', response);
-          }
-        );
-      }
-      
+      await notifyExtensionLogout();
       await signOut();
       router.replace('/');
     } catch (error) {
@@ -248,21 +262,93 @@ export default function DashboardPage() {
     }
   }
 
-  // Show loading spinner
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-700">
-        <div className="text-center">
-          <svg className="animate-spin h-12 w-12 text-accent mx-auto mb-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v8z"></path>
-          </svg>
-          <p className="text-gray-300">Loading...</p>
-        </div>
-      </div>
-    );
+  // Current plan from the catalog, and the plan the upgrade buttons sell
+  const plan = getPlan(userPlan?.plan);
+  const upgradePlan = PLANS[DEFAULT_PAID_PLAN_ID];
+  const upgradePrice = upgradePlan.price ? ` - ${formatAmount(upgradePlan.price.amount)}` : '';
+  const canUpgrade = !plan.isPaid;
+
+  // Split features into unlocked and locked, using the catalog until the
+  // entitlements request returns
+  const { features: featureFlags, limits } = entitlements || getPlanEntitlements(plan.id);
+  const allFeatures = Object.keys(featureFlags) as FeatureId[];
+  const unlockedFeatures = allFeatures.filter(feature => featureFlags[feature]);
+  const lockedFeatures = allFeatures.filter(feature => !featureFlags[feature]);
+
+  // Describe the billing period, if the plan has one
+  const renewalDate = userPlan?.current_period_end
+    ? new Date(userPlan.current_period_end).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })
+    : null;
+  const renewalText = (() => {
+    if (userPlan?.status === 'past_due') return 'Your last payment failed - please update your payment method';
+    if (!renewalDate) return null;
+    if (userPlan?.status === 'trialing') return `Trial ends on ${renewalDate}`;
+    if (userPlan?.status === 'active') return `Renews on ${renewalDate}`;
+    return null;
+  })();
+
+  // Onboarding steps: done if recorded, or (for the install) detected just
+  // now. Pending steps with a link show it as their next action.
+  const onboardingSteps: { title: string; description: string; done: boolean; link?: { href: string; label: string } }[] = [
+    {
+      title: 'Install Extension',
+      description: 'Add NexSellPro to Chrome for instant analysis',
+      done: !!(extensionDetected || onboarding?.extensionInstalledAt),
+      link: { href: EXTENSION_STORE_URL, label: 'Open Chrome Web Store' }
+    },
+    {
+      title: 'Connect Your Account',
+      description: 'The extension signs in with your NexSellPro account',
+      done: !!onboarding?.extensionSyncedAt
+    },
+    {
+      title: 'Analyze a Product',
+      description: 'Visit any Walmart product page to analyze it',
+      done: !!onboarding?.firstProductSourcedAt
+    }
+  ];
+  const completedSteps = onboardingSteps.filter(step => step.done).length;
+  const installedVersion = extensionVersion || onboarding?.extensionVersion || null;
+
+  // Open the Stripe Billing Portal for card updates, invoices and cancellation
+  async function handleManageBilling() {
+    setOpeningPortal(true);
+    setBillingError(null);
+    try {
+      const response = await authorizedFetch('/api/stripe/create-portal-session', { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.url) {
+        throw new Error(result.error || 'Failed to open billing portal');
+      }
+      window.location.assign(result.url);
+    } catch (error) {
+      console.error('Failed to open billing portal:', error);
+      setBillingError('Could not open billing management. Please try again or contact support.');
+      setOpeningPortal(false);
+    }
   }
 
+  // Send the user to Stripe Checkout for Founding Member access
+  async function handleUpgrade() {
+    setStartingCheckout(true);
+    setBillingError(null);
+    try {
+      await startCheckout();
+    } catch (error) {
+      console.error('Failed to start checkout:', error);
+      setBillingError('Could not start checkout. Please try again or contact support.');
+      setStartingCheckout(false);
+    }
+  }
+
+  // Resume checkout for beta signups arriving from the confirmation email
+  useEffect(() => {
+    if (checkoutResult === DEFAULT_PAID_PLAN_ID && canUpgrade) {
+      router.replace('/dashboard', undefined, { shallow: true });
+      handleUpgrade();
+    }
+  }, [checkoutResult, canUpgrade, router]);
+
   return (
     <>
       <Head>
@@ -281,15 +367,17 @@ export default function DashboardPage() {
                 </span>
               </div>
               <div className="flex items-center space-x-3">
-                {userPlan?.plan?.toLowerCase() === 'free' && (
-                  <a
-                    href={stripeLink}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="btn-primary px-4 py-2 text-sm font-medium"
+                <Link href="/products" className="text-gray-300 hover:text-white text-sm px-2">
+                  My Products
+                </Link>
+                {canUpgrade && (
+                  <button
+                    onClick={handleUpgrade}
+                    disabled={startingCheckout}
+                    className="btn-primary px-4 py-2 text-sm font-medium disabled:opacity-60"
                   >
                     Upgrade to Premium
-                  </a>
+                  </button>
                 )}
                 <button
                   onClick={handleSignOut}
@@ -306,6 +394,18 @@ export default function DashboardPage() {
         {/* Main Content */}
         <main className="container mx-auto px-4 py-8">
           <div className="max-w-4xl mx-auto space-y-8">
+            {/* Checkout result banners */}
+            {checkoutResult === 'success' && (
+              <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 text-green-400">
+                Payment received - thank you! Your Founding Member access will appear here within a few moments.
+              </div>
+            )}
+            {checkoutResult === 'canceled' && (
+              <div className="bg-slate-700/50 border border-slate-600 rounded-lg p-4 text-gray-300">
+                Checkout was canceled. You can upgrade any time from this page.
+              </div>
+            )}
+
             {/* Welcome Section */}
             <div className="card p-8 bg-gradient-to-br from-slate-800/50 to-slate-700/50 border border-slate-600/30">
               <div className="flex items-start justify-between mb-6">
@@ -327,63 +427,93 @@ export default function DashboardPage() {
               <div className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-blue-500/20 rounded-lg p-6 mb-6">
                 <div className="flex items-center justify-between">
                   <div>
-                                         <h3 className="text-xl font-semibold text-white mb-1">
-                       {userPlan?.plan?.toLowerCase() === 'founding' ? '🎯 Founding Member' : '🚀 Free Plan'}
+                     <h3 className="text-xl font-semibold text-white mb-1">
+                       {plan.isPaid ? '🎯' : '🚀'} {plan.name}
                      </h3>
-                                         <p className="text-gray-300">
-                       {userPlan?.plan?.toLowerCase() === 'founding' 
-                         ? 'Full access to all features until launch' 
-                         : 'Basic features available - upgrade for full access'
-                       }
-                     </p>
+                     <p className="text-gray-300">{plan.description}</p>
+                     {renewalText && (
+                       <p className="text-sm text-gray-400 mt-1">{renewalText}</p>
+                     )}
+                     {billingError && (
+                       <p className="text-sm text-red-400 mt-1">{billingError}</p>
+                     )}
                   </div>
-                  {userPlan?.plan?.toLowerCase() === 'free' && (
-                    <a
-                      href={stripeLink}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="btn-primary px-4 py-2 text-sm font-medium"
+                  {userPlan?.stripe_customer_id && (
+                    <button
+                      onClick={handleManageBilling}
+                      disabled={openingPortal}
+                      className="btn-accent px-4 py-2 text-sm font-medium disabled:opacity-60"
                     >
-                      Upgrade to Founding Member
-                    </a>
+                      {openingPortal ? 'Opening...' : 'Manage billing'}
+                    </button>
+                  )}
+                  {canUpgrade && (
+                    <button
+                      onClick={handleUpgrade}
+                      disabled={startingCheckout}
+                      className="btn-primary px-4 py-2 text-sm font-medium disabled:opacity-60"
+                    >
+                      Upgrade to {upgradePlan.name}
+                    </button>
                   )}
                 </div>
               </div>
 
               {/* Quick Start Guide */}
               <div className="bg-accent/10 border border-accent/20 rounded-lg p-6 mb-6">
-                <h3 className="text-xl font-semibold mb-4 text-accent flex items-center">
-                  <span className="mr-2">⚡</span>
-                  Get Started in 3 Steps
-                </h3>
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-xl font-semibold text-accent flex items-center">
+                    <span className="mr-2">⚡</span>
+                    {completedSteps === onboardingSteps.length ? "You're All Set" : 'Get Started in 3 Steps'}
+                  </h3>
+                  <span className="text-sm text-gray-400">
+                    {completedSteps} of {onboardingSteps.length} complete
+                  </span>
+                </div>
                 <div className="grid md:grid-cols-3 gap-4">
-                  <div className="text-center p-4 bg-slate-700/50 rounded-lg">
-                    <div className="w-12 h-12 bg-accent text-white rounded-full flex items-center justify-center text-xl font-bold mx-auto mb-3">1</div>
-                    <h4 className="font-semibold text-white mb-2">Install Extension</h4>
-                    <p className="text-sm text-gray-400">Add NexSellPro to Chrome for instant analysis</p>
-                  </div>
-                  <div className="text-center p-4 bg-slate-700/50 rounded-lg">
-                    <div className="w-12 h-12 bg-accent text-white rounded-full flex items-center justify-center text-xl font-bold mx-auto mb-3">2</div>
-                    <h4 className="font-semibold text-white mb-2">Browse Products</h4>
-                    <p className="text-sm text-gray-400">Visit any Walmart product page to analyze</p>
-                  </div>
-                  <div className="text-center p-4 bg-slate-700/50 rounded-lg">
-                    <div className="w-12 h-12 bg-accent text-white rounded-full flex items-center justify-center text-xl font-bold mx-auto mb-3">3</div>
-                    <h4 className="font-semibold text-white mb-2">Find Winners</h4>
-                    <p className="text-sm text-gray-400">Export profitable finds to Google Sheets</p>
-                  </div>
+                  {onboardingSteps.map((step, index) => (
+                    <div
+                      key={step.title}
+                      className={`text-center p-4 rounded-lg ${step.done ? 'bg-green-500/10 border border-green-500/20' : 'bg-slate-700/50'}`}
+                    >
+                      <div className={`w-12 h-12 text-white rounded-full flex items-center justify-center text-xl font-bold mx-auto mb-3 ${step.done ? 'bg-green-500' : 'bg-accent'}`}>
+                        {step.done ? '✓' : index + 1}
+                      </div>
+                      <h4 className="font-semibold text-white mb-2">{step.title}</h4>
+                      <p className="text-sm text-gray-400">{step.description}</p>
+                      {!step.done && step.link && (
+                        <a
+                          href={step.link.href}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-block mt-3 text-sm text-accent hover:underline"
+                        >
+                          {step.link.label} →
+                        </a>
+                      )}
+                    </div>
+                  ))}
                 </div>
               </div>
 
-              <a
-                href="#extension-download"
-                className="btn-primary inline-flex items-center gap-2 text-lg px-6 py-3"
-              >
-                <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
-                  <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
-                </svg>
-                Download Chrome Extension
-              </a>
+              {extensionDetected ? (
+                <div className="inline-flex items-center gap-2 text-green-400">
+                  <span>✓</span>
+                  <span>Chrome extension installed{installedVersion && ` (v${installedVersion})`}</span>
+                </div>
+              ) : (
+                <a
+                  href={EXTENSION_STORE_URL}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="btn-primary inline-flex items-center gap-2 text-lg px-6 py-3"
+                >
+                  <svg className="w-6 h-6" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M3 17a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1zm3.293-7.707a1 1 0 011.414 0L9 10.586V3a1 1 0 112 0v7.586l1.293-1.293a1 1 0 111.414 1.414l-3 3a1 1 0 01-1.414 0l-3-3a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                  Download Chrome Extension
+                </a>
+              )}
             </div>
 
             {/* Feature Access Section */}
@@ -393,100 +523,68 @@ export default function DashboardPage() {
                 Your Feature Access
               </h3>
               
-              <div className="grid md:grid-cols-2 gap-8">
-                {/* Free Features */}
+              <div className={`grid gap-8 ${lockedFeatures.length > 0 ? 'md:grid-cols-2' : ''}`}>
+                {/* Unlocked Features */}
                 <div className="bg-slate-700/30 rounded-lg p-6">
                   <h4 className="text-lg font-semibold text-white mb-4 flex items-center">
                     <span className="mr-2">🚀</span>
-                    Free Features
+                    Included in {plan.name}
                   </h4>
                   <ul className="space-y-3">
-                    <li className="flex items-start">
-                      <span className="text-green-400 mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Product Overview</span>
-                        <p className="text-sm text-gray-400">Basic product information and pricing</p>
-                      </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-green-400 mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Profit Calculator</span>
-                        <p className="text-sm text-gray-400">Calculate profit margins and ROI</p>
-                      </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-green-400 mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Basic Analysis</span>
-                        <p className="text-sm text-gray-400">Limited competition data</p>
-                      </div>
-                    </li>
+                    {unlockedFeatures.map(feature => (
+                      <li key={feature} className="flex items-start">
+                        <span className="text-green-400 mr-3 mt-1">✓</span>
+                        <div>
+                          <span className="text-white font-medium">{FEATURES[feature].name}</span>
+                          <p className="text-sm text-gray-400">{FEATURES[feature].description}</p>
+                        </div>
+                      </li>
+                    ))}
                   </ul>
+                  <p className="mt-4 text-sm text-gray-400">
+                    {limits.dailyAnalyses === null
+                      ? 'Unlimited product analyses'
+                      : `Up to ${limits.dailyAnalyses} product analyses per day`}
+                  </p>
                 </div>
 
-                {/* Premium Features */}
-                <div className="bg-gradient-to-br from-accent/10 to-blue-500/10 border border-accent/20 rounded-lg p-6">
-                  <h4 className="text-lg font-semibold text-white mb-4 flex items-center">
-                    <span className="mr-2">⭐</span>
-                    {userPlan?.plan === 'founding' ? 'Founding Member Features' : 'Premium Features'}
-                  </h4>
-                  <ul className="space-y-3">
-                    <li className="flex items-start">
-                      <span className="text-accent mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Buy Gauge</span>
-                        <p className="text-sm text-gray-400">Proprietary scoring system</p>
+                {/* Locked Features */}
+                {lockedFeatures.length > 0 && (
+                  <div className="bg-gradient-to-br from-accent/10 to-blue-500/10 border border-accent/20 rounded-lg p-6">
+                    <h4 className="text-lg font-semibold text-white mb-4 flex items-center">
+                      <span className="mr-2">⭐</span>
+                      Premium Features
+                    </h4>
+                    <ul className="space-y-3">
+                      {lockedFeatures.map(feature => (
+                        <li key={feature} className="flex items-start">
+                          <span className="text-accent mr-3 mt-1">🔒</span>
+                          <div>
+                            <span className="text-white font-medium">{FEATURES[feature].name}</span>
+                            <p className="text-sm text-gray-400">{FEATURES[feature].description}</p>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+
+                    {canUpgrade && (
+                      <div className="mt-6 pt-4 border-t border-accent/20">
+                        <button
+                          onClick={handleUpgrade}
+                          disabled={startingCheckout}
+                          className="btn-primary w-full text-center disabled:opacity-60"
+                        >
+                          Upgrade to {upgradePlan.name}{upgradePrice}
+                        </button>
                       </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-accent mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Advanced Analysis</span>
-                        <p className="text-sm text-gray-400">Complete competition breakdown</p>
-                      </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-accent mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Google Sheets Export</span>
-                        <p className="text-sm text-gray-400">One-click data export</p>
-                      </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-accent mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Product Variations</span>
-                        <p className="text-sm text-gray-400">Analyze all product variants</p>
-                      </div>
-                    </li>
-                    <li className="flex items-start">
-                      <span className="text-accent mr-3 mt-1">✓</span>
-                      <div>
-                        <span className="text-white font-medium">Listing Export</span>
-                        <p className="text-sm text-gray-400">Export optimized listings</p>
-                      </div>
-                    </li>
-                  </ul>
-                  
-                  {userPlan?.plan?.toLowerCase() === 'free' && (
-                    <div className="mt-6 pt-4 border-t border-accent/20">
-                      <a
-                        href={stripeLink}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="btn-primary w-full text-center"
-                      >
-                        Upgrade to Founding Member - $29
-                      </a>
-                    </div>
-                  )}
-                </div>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
 
             {/* Founding Member Bonus Section - Only shown to founding member plan users */}
-            {userPlan?.plan?.toLowerCase() === 'founding' && (
+            {plan.id === 'founding' && (
               <div className="card p-8">
                 <h2 className="text-2xl font-bold mb-4 gradient-text">
                   🎁 Founding Member Bonus
@@ -573,12 +671,25 @@ export default function DashboardPage() {
                         analytics.currentStreak
                       )}
                     </p>
-                    <p className="text-xs text-gray-500 mt-1">🔥 Coming soon!</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      🔥 Longest: {analytics.longestStreak} day{analytics.longestStreak === 1 ? '' : 's'}
+                    </p>
                   </div>
                 </div>
+
+                {/* Activity Calendar */}
+                {activity && (
+                  <div className="card p-6 mt-4 bg-gradient-to-br from-slate-800/50 to-slate-700/50 border border-slate-600/30">
+                    <h3 className="text-sm font-medium text-gray-400 mb-4">Sourcing Activity</h3>
+                    <ActivityHeatmap calendar={activity.calendar} />
+                  </div>
+                )}
               </div>
             )}
 
+            {/* Trends */}
+            {analytics.totalProductsAnalyzed > 0 && <TrendsPanel />}
+
             {/* Quick Stats */}
             <div className="grid md:grid-cols-3 gap-6">
               <div className="card p-6 text-center bg-gradient-to-br from-blue-500/10 to-blue-600/10 border border-blue-500/20">
@@ -610,10 +721,21 @@ export default function DashboardPage() {
                     Your secret weapon for finding profitable products on Walmart Marketplace
                   </p>
                 </div>
-                <div className="flex items-center space-x-2 bg-green-500/20 border border-green-500/30 rounded-full px-3 py-1">
-                  <div className="w-2 h-2 bg-green-400 rounded-full"></div>
-                  <span className="text-green-400 text-sm font-medium">Ready</span>
-                </div>
+                {extensionDetected ? (
+                  <div className="flex items-center space-x-2 bg-green-500/20 border border-green-500/30 rounded-full px-3 py-1">
+                    <div className="w-2 h-2 bg-green-400 rounded-full"></div>
+                    <span className="text-green-400 text-sm font-medium">
+                      Installed{installedVersion && ` · v${installedVersion}`}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2 bg-slate-600/30 border border-slate-500/30 rounded-full px-3 py-1">
+                    <div className={`w-2 h-2 bg-gray-400 rounded-full ${extensionDetected === null ? 'animate-pulse' : ''}`}></div>
+                    <span className="text-gray-300 text-sm font-medium">
+                      {extensionDetected === null ? 'Checking...' : 'Not detected'}
+                    </span>
+                  </div>
+                )}
               </div>
 
               {/* Extension Features */}
@@ -653,7 +775,7 @@ export default function DashboardPage() {
                 <h4 className="text-xl font-semibold text-white mb-2">Ready to Start Finding Profitable Products?</h4>
                 <p className="text-gray-300 mb-4">Install the extension and analyze your first product in under 30 seconds</p>
                 <a
-                  href="https://chromewebstore.google.com/detail/nexsellpro/oeoabefdhedmaeoghdmbcechbiepmfpc"
+                  href={EXTENSION_STORE_URL}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="btn-primary inline-flex items-center gap-3 text-lg px-8 py-4"
@@ -667,6 +789,9 @@ export default function DashboardPage() {
               </div>
             </div>
 
+            {/* Connected Devices */}
+            <ConnectedDevicesPanel />
+
             {/* Recent Activity */}
             <div className="card p-8 bg-gradient-to-br from-slate-800/50 to-slate-700/50 border border-slate-600/30">
               <h3 className="text-2xl font-bold mb-4 gradient-text flex items-center">
@@ -676,16 +801,24 @@ export default function DashboardPage() {
               <div className="text-center py-12 text-gray-400">
                 <div className="text-6xl mb-6">🚀</div>
                 <h4 className="text-xl font-semibold text-white mb-2">Ready to Start Your Journey?</h4>
-                <p className="text-gray-400 mb-6">Install the extension and analyze your first product to see your activity here</p>
-                <a
-                  href="#extension-download"
-                  className="btn-accent inline-flex items-center gap-2"
-                >
-                  <span>Get Started</span>
-                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
-                    <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
-                  </svg>
-                </a>
+                {extensionDetected ? (
+                  <p className="text-gray-400">Visit any Walmart product page to analyze your first product and see your activity here</p>
+                ) : (
+                  <>
+                    <p className="text-gray-400 mb-6">Install the extension and analyze your first product to see your activity here</p>
+                    <a
+                      href={EXTENSION_STORE_URL}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="btn-accent inline-flex items-center gap-2"
+                    >
+                      <span>Get Started</span>
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
+                        <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
+                      </svg>
+                    </a>
+                  </>
+                )}
               </div>
             </div>
 
@@ -729,17 +862,18 @@ export default function DashboardPage() {
                   <div>
                     <div className="font-medium text-white">Subscription Plan</div>
                     <div className="text-sm text-accent font-medium">
-                      {userPlan?.plan ? userPlan.plan.charAt(0).toUpperCase() + userPlan.plan.slice(1) : 'Free'}
+                      {plan.name}
                     </div>
                   </div>
-                  <a
-                    href={stripeLink}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-accent hover:underline text-sm"
-                  >
-                    Upgrade
-                  </a>
+                  {canUpgrade && (
+                    <button
+                      onClick={handleUpgrade}
+                      disabled={startingCheckout}
+                      className="text-accent hover:underline text-sm disabled:opacity-60"
+                    >
+                      Upgrade
+                    </button>
+                  )}
                 </div>
                 <div className="flex items-center justify-between py-3">
                   <div>
@@ -12,30 +12,34 @@ import React from 'react';
 import Head from 'next/head';
 import Image from 'next/image';
 import Link from 'next/link';
-
-////////////////////////////////////////////////
-// Environment-specific Stripe links:
-////////////////////////////////////////////////
-// Stripe links will be determined at runtime in the component
+import { startCheckout } from '@/lib/checkout';
+import { DEFAULT_PAID_PLAN_ID, PLANS, formatAmount } from '@/lib/plans';
 
 ////////////////////////////////////////////////
 // Types and Interfaces:
 ////////////////////////////////////////////////
-// No additional types needed for this page
+interface CheckoutProps {
+  onCheckout: () => void;
+}
+
+// Plan sold by the landing page CTAs
+const foundingPlan = PLANS[DEFAULT_PAID_PLAN_ID];
+const foundingPrice = foundingPlan.price ? formatAmount(foundingPlan.price.amount) : '';
 
 ////////////////////////////////////////////////
 // Page Component:
 ////////////////////////////////////////////////
 export default function HomePage() {
-  // Environment-specific Stripe link logic (runtime evaluation)
-  const isTesting = process.env.NEXT_PUBLIC_IS_TESTING === "true";
-  const isProd = process.env.NODE_ENV === "production" && !isTesting;
-  const stripeLink = isProd
-    ? "https://buy.stripe.com/bJeeVddD856nfzCc0b6Zy00" // Live
-    : "https://buy.stripe.com/test_bJeeVddD856nfzCc0b6Zy00"; // Test
-
-  // Debug logging
-  console.log(`Stripe link loaded in ${isProd ? "PRODUCTION (live mode)" : "TEST mode"}`);
+  // Founding Member CTAs: signed-in users go straight to Stripe Checkout,
+  // everyone else signs up first
+  const handleCheckout = async () => {
+    try {
+      await startCheckout();
+    } catch (error) {
+      console.error('Error starting checkout:', error);
+      alert('Unable to start checkout. Please try again.');
+    }
+  };
 
   return (
     <>
@@ -72,14 +76,14 @@ export default function HomePage() {
       </header>
 
       <main className="min-h-screen bg-white">
-        <HeroSection stripeLink={stripeLink} />
+        <HeroSection onCheckout={handleCheckout} />
         <BenefitsSection />
         <FeaturesSection />
         <HowItWorksSection />
-        <PricingSection stripeLink={stripeLink} />
+        <PricingSection onCheckout={handleCheckout} />
         <TargetAudienceSection />
         <FAQSection />
-        <FooterSection stripeLink={stripeLink} />
+        <FooterSection onCheckout={handleCheckout} />
       </main>
     </>
   );
@@ -99,7 +103,7 @@ export default function HomePage() {
 ////////////////////////////////////////////////
 // Event Handlers:
 ////////////////////////////////////////////////
-// No event handlers needed for this page
+// handleCheckout is defined in HomePage and passed to the CTA sections
 
 ////////////////////////////////////////////////
 // Helper Functions:
@@ -113,7 +117,7 @@ export default function HomePage() {
 /**
  * Hero Section - The first thing visitors see
  */
-function HeroSection({ stripeLink }: { stripeLink: string }) {
+function HeroSection({ onCheckout }: CheckoutProps) {
 
   return (
     <section id="hero" className="bg-gradient-to-b from-slate-50 to-white px-4 py-16 md:py-24 scroll-mt-28">
@@ -137,13 +141,14 @@ function HeroSection({ stripeLink }: { stripeLink: string }) {
           >
             Get Started - Free
           </Link>
-          {/* Redirects to signup page with founding member plan */}
-          <Link 
-            href="/signup?plan=founding"
+          {/* Starts checkout, or signup with founding member plan when signed out */}
+          <button
+            type="button"
+            onClick={onCheckout}
             className="inline-block bg-green-600 text-white px-8 py-4 rounded-lg text-lg font-semibold hover:bg-green-700 transition-colors shadow-lg"
           >
-            Get Founding Member Access - $29
-          </Link>
+            Get {foundingPlan.name} Access - {foundingPrice}
+          </button>
         </div>
         {/* Trust indicator and login banner */}
         <p className="mt-4 text-sm text-gray-500 mb-4">
@@ -339,7 +344,7 @@ function HowItWorksSection() {
 /**
  * Pricing Section - Founding Member special
  */
-function PricingSection({ stripeLink }: { stripeLink: string }) {
+function PricingSection({ onCheckout }: CheckoutProps) {
 
   return (
     <section id="pricing" className="px-4 py-16 bg-gradient-to-b from-white to-slate-50 scroll-mt-28">
@@ -355,8 +360,12 @@ function PricingSection({ stripeLink }: { stripeLink: string }) {
           </div>
           <h3 className="text-2xl font-bold mb-2 text-gray-900">Early Adopter Pricing</h3>
           <div className="text-5xl font-bold mb-4 text-gray-900">
-            $29
-            <span className="text-lg text-gray-500 line-through ml-2">$99</span>
+            {foundingPrice}
+            {foundingPlan.price?.compareAtAmount && (
+              <span className="text-lg text-gray-500 line-through ml-2">
+                {formatAmount(foundingPlan.price.compareAtAmount)}
+              </span>
+            )}
           </div>
           <p className="text-gray-700 mb-6">
             Access until launch (minimum two months of full, unrestricted access). 
@@ -365,44 +374,23 @@ function PricingSection({ stripeLink }: { stripeLink: string }) {
           
           {/* What's included */}
           <ul className="text-left mb-8 space-y-2">
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Full access until launch (min two months)</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">All current & future features</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Priority support & training</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Direct line to the founder</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Vote on new features</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Founding member discount codes</span>
-            </li>
-            <li className="flex items-start">
-              <span className="text-green-500 mr-2">✓</span>
-              <span className="text-gray-800">Referral bonus opportunities</span>
-            </li>
+            {foundingPlan.highlights.map(highlight => (
+              <li key={highlight} className="flex items-start">
+                <span className="text-green-500 mr-2">✓</span>
+                <span className="text-gray-800">{highlight}</span>
+              </li>
+            ))}
           </ul>
           
           {/* CTA button */}
-          {/* Redirects to signup page for founding members */}
-          <a 
-            href="/signup?plan=founding"
+          {/* Starts checkout, or signup for founding members when signed out */}
+          <button
+            type="button"
+            onClick={onCheckout}
             className="block w-full bg-blue-600 text-white py-4 rounded-lg text-lg font-semibold hover:bg-blue-700 transition-colors shadow-lg"
           >
             Claim Your Founding Member Spot
-          </a>
+          </button>
           
           <p className="mt-4 text-sm text-gray-600">
             One-time payment • Quick access • 30-day money-back policy • Free profit calculator currently available
@@ -531,7 +519,7 @@ function FAQSection() {
 /**
  * Footer Section - Final CTA and contact info
  */
-function FooterSection({ stripeLink }: { stripeLink: string }) {
+function FooterSection({ onCheckout }: CheckoutProps) {
 
   return (
     <footer className="px-4 py-16 bg-gray-900 text-white">
@@ -553,13 +541,14 @@ function FooterSection({ stripeLink }: { stripeLink: string }) {
         </p>
         
         {/* Final CTA */}
-        {/* Redirects to environment-specific Stripe Checkout */}
-        <a 
-          href={stripeLink}
+        {/* Starts server-created Stripe Checkout */}
+        <button
+          type="button"
+          onClick={onCheckout}
           className="inline-block bg-white text-gray-900 px-8 py-4 rounded-lg text-lg font-semibold hover:bg-gray-100 transition-colors shadow-lg mb-8"
         >
-          Get Started for $29
-        </a>
+          Get Started for {foundingPrice}
+        </button>
         
         {/* Contact info */}
         <div className="text-sm text-gray-400">
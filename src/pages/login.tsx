@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
-import { supabase } from '@/lib/supabase';
+import { useRouter } from 'next/router';
+import { supabase, ensureSessionPersistence } from '@/lib/supabase';
+import { getSafeRedirectPath } from '@/lib/app-url';
 
 /**
  * Login Flow and States Documentation:
@@ -11,7 +13,7 @@ import { supabase } from '@/lib/supabase';
  * 2. Form validation occurs (client-side)
  * 3. Credentials are sent to Supabase for verification
  * 4. Based on response, user is either:
- *    - Redirected to dashboard (success)
+ *    - Redirected to the `next` page, or the dashboard (success)
  *    - Shown specific error message (failure)
  *    - Prompted to confirm email (if not confirmed)
  * 
@@ -93,6 +95,9 @@ class LoginErrorBoundary extends React.Component<
 }
 
 export default function LoginPage() {
+  const router = useRouter();
+  // Protected pages send users here with ?next=<path to return to>
+  const redirectTo = getSafeRedirectPath(router.query.next);
   const [form, setForm] = useState<LoginForm>(initialForm);
   const [errors, setErrors] = useState<FormError>({});
   const [loadingState, setLoadingState] = useState<LoadingState>('idle');
@@ -251,12 +256,20 @@ export default function LoginPage() {
       localStorage.setItem('lastLoginEmail', form.email);
       localStorage.setItem('sessionExpiresAt', data.session.expires_at?.toString() || 'unknown');
 
-      // Simple delay then redirect
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      // Make sure the session cookies are written before the server checks them
+      const persisted = await ensureSessionPersistence();
+      if (!persisted.success) {
+        console.error('[Login] Session was not persisted:', persisted.error);
+        setErrors({
+          general: "Login succeeded but session was not created. Please try again."
+        });
+        setLoadingState('idle');
+        return;
+      }
 
       // Force redirect with try-catch only around the redirect
       try {
-        window.location.href = '/dashboard';
+        window.location.href = redirectTo;
       } catch (redirectError) {
         console.error('[Login] Redirect failed:', redirectError);
         setErrors({ 
@@ -285,6 +298,9 @@ export default function LoginPage() {
 
   // Handle page reload scenarios and authentication checks
   React.useEffect(() => {
+    // Wait for the query string so `next` is honoured
+    if (!router.isReady) return;
+
     // Check if there was a recent login from localStorage
     const lastLoginTimestamp = localStorage.getItem('lastLoginTimestamp');
     const lastLoginEmail = localStorage.getItem('lastLoginEmail');
@@ -306,9 +322,13 @@ export default function LoginPage() {
           try {
             setLoadingState('redirecting');
             
-            // Wait a moment then redirect
-            await new Promise(resolve => setTimeout(resolve, 500));
-            window.location.href = '/dashboard';
+            // Only redirect if the shared session module still has a session
+            const { success } = await ensureSessionPersistence();
+            if (!success) {
+              setLoadingState('idle');
+              return;
+            }
+            window.location.href = redirectTo;
           } catch (error) {
             console.error('[Login] Error redirecting after page reload:', error);
             setLoadingState('idle');
@@ -323,7 +343,7 @@ export default function LoginPage() {
         localStorage.removeItem('sessionExpiresAt');
       }
     }
-  }, []);
+  }, [router.isReady, redirectTo]);
 
   // Helper function to get loading text based on state
   const getLoadingText = () => {
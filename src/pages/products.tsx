@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import type { GetServerSideProps } from 'next';
+import Head from 'next/head';
+import Link from 'next/link';
+import { requirePageAuth } from '@/lib/supabase-server';
+import { authorizedFetch } from '@/lib/api-client';
+import type { ProductPage, ProductSort, SourcedProduct } from '@/lib/products';
+
+const PAGE_SIZE = 25;
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORTS: { id: ProductSort; label: string }[] = [
+  { id: 'last_seen', label: 'Last analyzed' },
+  { id: 'first_seen', label: 'First analyzed' },
+  { id: 'view_count', label: 'Times viewed' },
+  { id: 'product_id', label: 'Product ID' }
+];
+
+// Metadata fields come from the product_sourced schema in lib/events.ts.
+// Rows stored before the schema was enforced may lack them or hold other
+// types, so anything that isn't a number shows as missing.
+
+// Format a metadata value as dollars
+function formatMoney(value: number | undefined): string {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? value.toLocaleString(undefined, { style: 'currency', currency: 'USD' })
+    : '–';
+}
+
+// Format a metadata value as a percentage
+function formatPercent(value: number | undefined): string {
+  return typeof value === 'number' && Number.isFinite(value)
+    ? `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`
+    : '–';
+}
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Only signed-in users get past this; products are loaded client-side
+ * from /api/products.
+ */
+export const getServerSideProps: GetServerSideProps = async (context) => {
+  const auth = await requirePageAuth(context);
+  if (!auth.ok) {
+    return { redirect: auth.redirect };
+  }
+
+  return { props: {} };
+};
+
+/**
+ * My Products - every distinct product the user has analyzed with the
+ * extension, with when it was first and last analyzed, how many times, and
+ * the latest price, profit and ROI the extension reported.
+ */
+export default function ProductsPage() {
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [sort, setSort] = useState<ProductSort>('last_seen');
+  const [direction, setDirection] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ProductPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Debounce the search box, going back to the first page on each new search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function loadProducts() {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams({
+          sort,
+          direction,
+          page: String(page),
+          pageSize: String(PAGE_SIZE)
+        });
+        if (search) params.set('search', search);
+
+        const response = await authorizedFetch(`/api/products?${params}`);
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load products');
+        }
+        if (!cancelled) setResult(data);
+      } catch (err) {
+        console.error('Error fetching products:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load products');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    loadProducts();
+    return () => {
+      cancelled = true;
+    };
+  }, [search, sort, direction, page]);
+
+  function changeSort(value: ProductSort) {
+    setSort(value);
+    // Product IDs read best A-Z; everything else newest or most first
+    setDirection(value === 'product_id' ? 'asc' : 'desc');
+    setPage(1);
+  }
+
+  const totalPages = result ? Math.max(1, Math.ceil(result.total / result.pageSize)) : 1;
+  const products: SourcedProduct[] = result?.products || [];
+
+  return (
+    <>
+      <Head>
+        <title>My Products | NexSellPro</title>
+      </Head>
+      <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-700">
+        {/* Header */}
+        <header className="bg-slate-800/50 backdrop-blur-lg border-b border-slate-700">
+          <div className="container mx-auto px-4 py-4">
+            <div className="flex items-center justify-between">
+              <h1 className="text-2xl font-bold gradient-text">My Products</h1>
+              <Link href="/dashboard" className="text-gray-300 hover:text-white text-sm">
+                ← Back to Dashboard
+              </Link>
+            </div>
+          </div>
+        </header>
+
+        <main className="container mx-auto px-4 py-8">
+          <div className="max-w-6xl mx-auto space-y-6">
+            {/* Search and sort */}
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                type="search"
+                value={searchInput}
+                onChange={event => setSearchInput(event.target.value)}
+                placeholder="Search by product ID or details"
+                maxLength={100}
+                className="flex-1 min-w-[16rem] bg-slate-900 border border-slate-600 rounded px-3 py-2 text-gray-200"
+                aria-label="Search products"
+              />
+              <select
+                value={sort}
+                onChange={event => changeSort(event.target.value as ProductSort)}
+                className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-gray-200"
+                aria-label="Sort by"
+              >
+                {SORTS.map(item => (
+                  <option key={item.id} value={item.id}>{item.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => {
+                  setDirection(direction === 'asc' ? 'desc' : 'asc');
+                  setPage(1);
+                }}
+                className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-gray-200 hover:border-slate-500"
+                aria-label="Toggle sort direction"
+              >
+                {direction === 'asc' ? '↑ Ascending' : '↓ Descending'}
+              </button>
+            </div>
+
+            {error && (
+              <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-3">
+                <p className="text-red-400 text-sm">{error}</p>
+              </div>
+            )}
+
+            {/* Product table */}
+            <div className={`card overflow-x-auto bg-slate-800/50 border border-slate-600/30 ${loading ? 'opacity-50' : ''}`}>
+              <table className="w-full text-sm text-left">
+                <thead className="text-gray-400 border-b border-slate-600/50">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Product</th>
+                    <th className="px-4 py-3 font-medium">Price</th>
+                    <th className="px-4 py-3 font-medium">Profit</th>
+                    <th className="px-4 py-3 font-medium">ROI</th>
+                    <th className="px-4 py-3 font-medium">Views</th>
+                    <th className="px-4 py-3 font-medium">First analyzed</th>
+                    <th className="px-4 py-3 font-medium">Last analyzed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {products.map(product => {
+                    const { title, price, profit, roi } = product.latestMetadata;
+                    const hasTitle = typeof title === 'string' && title !== '';
+                    return (
+                      <tr key={product.productId} className="border-b border-slate-700/50 last:border-0">
+                        <td className="px-4 py-3">
+                          <a
+                            href={product.walmartUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-accent hover:underline"
+                          >
+                            {hasTitle ? title : product.productId}
+                          </a>
+                          {hasTitle && (
+                            <div className="text-xs text-gray-500">{product.productId}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-gray-200">{formatMoney(price)}</td>
+                        <td className="px-4 py-3 text-gray-200">{formatMoney(profit)}</td>
+                        <td className="px-4 py-3 text-gray-200">{formatPercent(roi)}</td>
+                        <td className="px-4 py-3 text-gray-200">{product.viewCount.toLocaleString()}</td>
+                        <td className="px-4 py-3 text-gray-400">{formatTimestamp(product.firstSeenAt)}</td>
+                        <td className="px-4 py-3 text-gray-400">{formatTimestamp(product.lastSeenAt)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {!loading && products.length === 0 && (
+                <p className="px-4 py-8 text-center text-gray-400">
+                  {search
+                    ? 'No products match your search.'
+                    : 'No products yet. Analyze a product on Walmart with the extension and it will show up here.'}
+                </p>
+              )}
+            </div>
+
+            {/* Pagination */}
+            {result && result.total > 0 && (
+              <div className="flex items-center justify-between text-sm text-gray-400">
+                <span>
+                  {((page - 1) * result.pageSize + 1).toLocaleString()}–{Math.min(page * result.pageSize, result.total).toLocaleString()} of {result.total.toLocaleString()} products
+                </span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1 || loading}
+                    className="px-3 py-1 rounded border border-slate-600 hover:border-slate-500 disabled:opacity-40"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {page} of {totalPages}</span>
+                  <button
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= totalPages || loading}
+                    className="px-3 py-1 rounded border border-slate-600 hover:border-slate-500 disabled:opacity-40"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </main>
+      </div>
+    </>
+  );
+}
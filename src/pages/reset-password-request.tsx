@@ -1,7 +1,6 @@
 import React, { useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
-import { supabase } from '@/lib/supabase';
 
 export default function ResetPasswordRequestPage() {
   const [email, setEmail] = useState('');
@@ -22,12 +21,16 @@ export default function ResetPasswordRequestPage() {
     setLoading(true);
     
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth/callback?type=recovery`,
+      // Sent from the server, which rate-limits requests per IP and email
+      const response = await fetch('/api/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
       });
+      const result = await response.json();
 
-      if (error) {
-        setError(error.message);
+      if (!response.ok || !result.success) {
+        setError(result.error || 'Could not send the reset email. Please try again.');
       } else {
         setSuccess(true);
       }
@@ -4,9 +4,14 @@ import Link from 'next/link';
 import { useRouter } from 'next/router';
 import ReCAPTCHA from 'react-google-recaptcha';
 import { supabase } from '@/lib/supabase';
+import { startCheckout } from '@/lib/checkout';
+import { DEFAULT_PAID_PLAN_ID, PLANS, formatAmount } from '@/lib/plans';
 
 // Beta signup header with progress indicator and benefits
 function BetaSignupHeader() {
+  const plan = PLANS[DEFAULT_PAID_PLAN_ID];
+  const price = plan.price ? `${formatAmount(plan.price.amount)} ` : '';
+
   return (
     <>
       <h1 className="text-3xl font-bold mb-3 text-white">Almost There! Create Your Account</h1>
@@ -46,7 +51,7 @@ function BetaSignupHeader() {
           <svg className="w-5 h-5 text-green-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7" />
           </svg>
-          <span>Secure your $29 Founding Member access until launch</span>
+          <span>Secure your {price}{plan.name} access until launch</span>
         </div>
         <div className="flex items-center text-gray-300">
           <svg className="w-5 h-5 text-green-400 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -119,7 +124,7 @@ function SuccessMessage({
   initialForm: SignupForm;
   router: any;
 }) {
-  if (isBetaSignup) {
+  if (isBetaSignup && state.checkoutRedirect) {
     return (
       <div className="text-center">
         <div className="text-green-400 text-6xl mb-4">✓</div>
@@ -242,6 +247,7 @@ interface SignupState {
   showConfirmPassword: boolean;
   redirectCountdown: number;
   captchaToken: string;
+  checkoutRedirect: boolean; // Beta signup is on its way to Stripe Checkout
 }
 
 const initialForm: SignupForm = {
@@ -262,12 +268,10 @@ export default function SignupPage() {
   const isBetaSignup = router.query.plan === 'founding';
   const isPaidReturn = router.query.paid === 'true';
 
-  // Environment-aware Stripe payment link (runtime evaluation)
-  const isTesting = process.env.NEXT_PUBLIC_IS_TESTING === "true";
-  const isProd = process.env.NODE_ENV === "production" && !isTesting;
-  const stripeLink = isProd
-    ? "https://buy.stripe.com/bJeeVddD856nfzCc0b6Zy00" // Live
-    : "https://buy.stripe.com/test_bJeeVddD856nfzCc0b6Zy00"; // Test
+  // Beta signups land back on the dashboard, which resumes checkout
+  const emailRedirectTo = isBetaSignup
+    ? `${process.env.NEXT_PUBLIC_APP_URL}/dashboard?checkout=founding`
+    : `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`;
 
   // Log the reCAPTCHA site key for debugging
 
@@ -281,7 +285,8 @@ export default function SignupPage() {
     showPassword: false,
     showConfirmPassword: false,
     redirectCountdown: 30,
-    captchaToken: ''
+    captchaToken: '',
+    checkoutRedirect: false
   });
 
   // Handle users returning from successful Stripe payment
@@ -296,6 +301,11 @@ export default function SignupPage() {
   useEffect(() => {
     let countdownInterval: NodeJS.Timeout;
 
+    // Nothing to count down while heading to Stripe Checkout
+    if (state.checkoutRedirect) {
+      return;
+    }
+
     if (state.success && state.redirectCountdown > 0) {
       countdownInterval = setInterval(() => {
         setState(prev => ({
@@ -312,7 +322,7 @@ export default function SignupPage() {
         clearInterval(countdownInterval);
       }
     };
-  }, [state.success, state.redirectCountdown, router]);
+  }, [state.success, state.redirectCountdown, state.checkoutRedirect, router]);
 
   // Clear errors when user starts typing
   function handleChange(e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) {
@@ -408,7 +418,7 @@ export default function SignupPage() {
         email: form.email,
         password: form.password,
         options: {
-          emailRedirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`,
+          emailRedirectTo,
           data: {
             first_name: form.firstName,
             last_name: form.lastName,
@@ -433,14 +443,19 @@ export default function SignupPage() {
       }
 
       // Step 2: Handle success based on signup type
-      if (isBetaSignup && data.user) {
-        // User successfully created, now redirect to Stripe
-        const clientReferenceId = data.user.id;
-        const redirectUrl = `${stripeLink}?client_reference_id=${clientReferenceId}`;
-        
-        // Redirect to Stripe checkout
-        window.location.href = redirectUrl;
+      if (isBetaSignup && data.session) {
+        // Signed in right away, so the server can create a Checkout Session
+        // tied to this account
+        setState(prev => ({ ...prev, success: true, checkoutRedirect: true }));
+        try {
+          await startCheckout();
+        } catch (checkoutError) {
+          console.error('Error starting checkout:', checkoutError);
+          router.push('/dashboard?checkout=founding');
+        }
       } else {
+        // Regular signup, or a beta signup that must confirm its email first
+        // (the confirmation link resumes checkout from the dashboard)
         // For regular signup, show success state
         setState(prev => ({
           ...prev,
@@ -468,7 +483,7 @@ export default function SignupPage() {
         email: form.email,
         password: form.password,
         options: {
-          emailRedirectTo: `${process.env.NEXT_PUBLIC_APP_URL}/dashboard`,
+          emailRedirectTo,
           data: {
             first_name: form.firstName,
             last_name: form.lastName,
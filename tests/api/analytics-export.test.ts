@@ -0,0 +1,122 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ExportedEvent } from '@/lib/event-export';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+vi.mock('@/lib/api-auth', () => ({
+  authenticateRequest: vi.fn(async () => ({ ok: true, identity: { userId: 'user-1', method: 'session' } })),
+}));
+vi.mock('@/lib/event-export', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/event-export')>()),
+  iterateUserEvents: vi.fn(),
+}));
+
+import { iterateUserEvents } from '@/lib/event-export';
+import handler from '@/pages/api/analytics/export';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function event(id: string, metadata: Record<string, unknown> = {}): ExportedEvent {
+  return { id, event_type: 'product_sourced', product_id: null, session_id: null, metadata, created_at: '2025-01-01T00:00:00.000Z' };
+}
+
+let server: Server;
+let baseUrl: string;
+
+/**
+ * Serve the route over real HTTP, so disconnects and resets behave as they
+ * do in production
+ */
+beforeEach(async () => {
+  server = createServer((req, res) => {
+    const url = new URL(req.url!, 'http://localhost');
+    const apiReq = Object.assign(req, { query: Object.fromEntries(url.searchParams) });
+    const apiRes = Object.assign(res, {
+      status(code: number) {
+        res.statusCode = code;
+        return apiRes;
+      },
+      json(body: unknown) {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(body));
+        return apiRes;
+      },
+    });
+    void handler(apiReq as unknown as NextApiRequest, apiRes as unknown as NextApiResponse);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('GET /api/analytics/export', () => {
+  it('streams every page', async () => {
+    vi.mocked(iterateUserEvents).mockImplementation(async function* () {
+      yield [event('a'), event('b')];
+      yield [event('c')];
+    });
+
+    const response = await fetch(`${baseUrl}/api/analytics/export?format=json`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.map((row: ExportedEvent) => row.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('resets the connection when a page fails, so the download does not look complete', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(iterateUserEvents).mockImplementation(async function* () {
+      yield [event('a')];
+      throw new Error('statement timeout');
+    });
+
+    // Depending on timing the reset arrives before or after the headers
+    const download = fetch(`${baseUrl}/api/analytics/export?format=csv`).then(response => response.text());
+
+    await expect(download).rejects.toThrow();
+  });
+
+  it('stops reading pages when the client disconnects', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    let pagesRead = 0;
+    let stopped!: () => void;
+    const pagination = new Promise<void>(resolve => {
+      stopped = resolve;
+    });
+    // Pages larger than the socket buffer, so the route waits for each to drain
+    const padding = 'x'.repeat(4 * 1024 * 1024);
+    vi.mocked(iterateUserEvents).mockImplementation(async function* () {
+      try {
+        for (;;) {
+          pagesRead += 1;
+          yield [event(String(pagesRead), { padding })];
+        }
+      } finally {
+        stopped();
+      }
+    });
+
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/api/analytics/export?format=csv`, { signal: controller.signal });
+    await response.body!.getReader().read();
+    controller.abort();
+
+    await pagination;
+    expect(pagesRead).toBeLessThan(10);
+  });
+});
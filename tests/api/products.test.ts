@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+vi.mock('@/lib/api-auth', () => ({
+  authenticateRequest: vi.fn(async () => ({ ok: true, identity: { userId: 'user-1', method: 'session' } })),
+}));
+vi.mock('@/lib/products', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/lib/products')>()),
+  getSourcedProducts: vi.fn(async (_userId: string, query: { page: number; pageSize: number }) => ({
+    products: [],
+    page: query.page,
+    pageSize: query.pageSize,
+    total: 0,
+  })),
+}));
+
+import { getSourcedProducts, MAX_PAGE, MAX_PAGE_SIZE } from '@/lib/products';
+import handler from '@/pages/api/products';
+
+async function get(query: Record<string, string>) {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+    setHeader() {
+      return this;
+    },
+  };
+  await handler({ method: 'GET', query, headers: {} } as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+describe('GET /api/products paging', () => {
+  beforeEach(() => {
+    vi.mocked(getSourcedProducts).mockClear();
+  });
+
+  it('accepts the last page at the largest page size', async () => {
+    const res = await get({ page: String(MAX_PAGE), pageSize: String(MAX_PAGE_SIZE) });
+
+    expect(res.statusCode).toBe(200);
+    expect((MAX_PAGE - 1) * MAX_PAGE_SIZE).toBeLessThanOrEqual(2147483647);
+  });
+
+  it.each([
+    { page: String(MAX_PAGE + 1) },
+    { page: '1e15' },
+    { page: '0' },
+    { page: '1.5' },
+    { pageSize: String(MAX_PAGE_SIZE + 1) },
+  ] as Record<string, string>[])('rejects %j with 400', async query => {
+    const res = await get(query);
+
+    expect(res.statusCode).toBe(400);
+    expect(getSourcedProducts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Readable } from 'stream';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import type Stripe from 'stripe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '../helpers/fake-supabase';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import stripe, { webhookSecret } from '@/lib/stripe';
+import handler from '@/pages/api/stripe/webhook';
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Load a fixture event from tests/fixtures/stripe
+ */
+function fixture(type: string): Stripe.Event {
+  return JSON.parse(readFileSync(join(__dirname, '../fixtures/stripe', `${type}.json`), 'utf8'));
+}
+
+interface MockResponse {
+  statusCode: number;
+  body: unknown;
+  status(code: number): MockResponse;
+  json(body: unknown): MockResponse;
+  send(body: unknown): MockResponse;
+  end(body?: unknown): MockResponse;
+  setHeader(name: string, value: string): MockResponse;
+}
+
+function mockResponse(): MockResponse {
+  return {
+    statusCode: 200,
+    body: undefined,
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      this.body = body;
+      return this;
+    },
+    send(body) {
+      this.body = body;
+      return this;
+    },
+    end(body) {
+      this.body = body;
+      return this;
+    },
+    setHeader() {
+      return this;
+    },
+  };
+}
+
+/**
+ * POST an event to the webhook route, signed with the test secret unless a
+ * signature is given
+ */
+async function deliver(event: Stripe.Event, signature?: string): Promise<MockResponse> {
+  const payload = JSON.stringify(event);
+  const req = Object.assign(Readable.from([Buffer.from(payload)]), {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'content-length': String(Buffer.byteLength(payload)),
+      'stripe-signature': signature ?? stripe.webhooks.generateTestHeaderString({ payload, secret: webhookSecret }),
+    },
+  });
+  const res = mockResponse();
+  await handler(req as unknown as NextApiRequest, res as unknown as NextApiResponse);
+  return res;
+}
+
+function userPlan() {
+  return db.rows('user_plan').find(row => row.id === 'user-1')!;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('POST /api/stripe/webhook', () => {
+  beforeEach(() => {
+    db.reset();
+    db.seed('user_plan', [{
+      id: 'user-1',
+      email: 'seller@example.com',
+      plan: 'free',
+      status: 'inactive',
+      stripe_customer_id: 'cus_123',
+      stripe_event_at: null,
+    }]);
+    vi.spyOn(stripe.checkout.sessions, 'listLineItems').mockResolvedValue({
+      data: [{ price: { id: 'price_founding' } }],
+    } as never);
+  });
+
+  it.each([
+    ['checkout.session.completed', 'founding', 'active'],
+    ['customer.subscription.created', 'founding', 'trialing'],
+    ['customer.subscription.updated', 'founding', 'past_due'],
+    ['customer.subscription.deleted', 'free', 'canceled'],
+    ['invoice.paid', 'founding', 'active'],
+    ['invoice.payment_failed', 'free', 'past_due'],
+    ['charge.refunded', 'free', 'refunded'],
+  ])('applies %s', async (type, plan, status) => {
+    const event = fixture(type);
+    const res = await deliver(event);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ received: true, outcome: 'processed' });
+    expect(userPlan()).toMatchObject({
+      plan,
+      status,
+      stripe_event_at: new Date(event.created * 1000).toISOString(),
+    });
+    expect(db.rows('stripe_events')).toEqual([
+      expect.objectContaining({ id: event.id, type, outcome: 'processed' }),
+    ]);
+  });
+
+  it('records billing fields from the subscription', async () => {
+    await deliver(fixture('customer.subscription.created'));
+
+    expect(userPlan()).toMatchObject({
+      stripe_customer_id: 'cus_123',
+      stripe_subscription_id: 'sub_123',
+      stripe_price_id: 'price_founding',
+      current_period_end: '2026-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('acknowledges event types it does not handle', async () => {
+    const event = { ...fixture('invoice.paid'), id: 'evt_other', type: 'customer.created' } as Stripe.Event;
+    const res = await deliver(event);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ received: true, outcome: 'ignored' });
+    expect(userPlan()).toMatchObject({ plan: 'free', status: 'inactive' });
+  });
+
+  it('rejects a bad signature without recording anything', async () => {
+    const event = fixture('charge.refunded');
+    const forged = stripe.webhooks.generateTestHeaderString({ payload: JSON.stringify(event), secret: 'whsec_wrong' });
+    const res = await deliver(event, forged);
+
+    expect(res.statusCode).toBe(400);
+    expect(db.rows('stripe_events')).toHaveLength(0);
+    expect(userPlan()).toMatchObject({ plan: 'free', status: 'inactive' });
+  });
+
+  it('acknowledges a duplicate delivery without applying it again', async () => {
+    const event = fixture('invoice.paid');
+    await deliver(event);
+
+    // Changed after the first delivery; a re-applied event would overwrite it
+    userPlan().status = 'past_due';
+    const res = await deliver(event);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ received: true, duplicate: true });
+    expect(userPlan().status).toBe('past_due');
+    expect(db.rows('stripe_events')).toEqual([
+      expect.objectContaining({ id: event.id, outcome: 'processed' }),
+    ]);
+  });
+
+  it('retries a delivery whose earlier attempt failed', async () => {
+    const event = fixture('invoice.paid');
+    db.seed('stripe_events', [{ id: event.id, type: event.type, outcome: 'failed', attempts: 1, received_at: '2025-01-01T00:00:00.000Z' }]);
+
+    const res = await deliver(event);
+
+    expect(res.body).toEqual({ received: true, outcome: 'processed' });
+    expect(db.rows('stripe_events')[0]).toMatchObject({ outcome: 'processed', attempts: 2 });
+  });
+
+  it('skips an older event delivered after a newer one', async () => {
+    const newer = { ...fixture('customer.subscription.updated'), id: 'evt_newer' } as Stripe.Event;
+    newer.created += 3600;
+    (newer.data.object as Stripe.Subscription).status = 'active';
+    const older = fixture('customer.subscription.deleted');
+
+    await deliver(newer);
+    const res = await deliver(older);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ received: true, outcome: 'stale' });
+    expect(userPlan()).toMatchObject({
+      plan: 'founding',
+      status: 'active',
+      stripe_event_at: new Date(newer.created * 1000).toISOString(),
+    });
+    expect(db.rows('stripe_events').find(row => row.id === older.id)).toMatchObject({ outcome: 'stale' });
+  });
+});
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+
+// ============================================================================
+// IN-MEMORY SUPABASE
+// ============================================================================
+// A stand-in for the service-role client in tests. Supports the subset of
+// the PostgREST query builder the lib modules use: insert, upsert, update,
+// select, the eq/is/gt/gte/lt/lte/in/or filters, order, range, limit, single
+// and maybeSingle. Primary keys are unique ('23505' on conflict) and rows get
+// an `id` and `created_at` when inserted without one.
+
+type Row = Record<string, unknown>;
+
+interface QueryError {
+  code: string;
+  message: string;
+}
+
+interface QueryResult {
+  data: unknown;
+  error: QueryError | null;
+}
+
+type Filter = (row: Row) => boolean;
+
+/**
+ * Compare a column value with a filter operand. ISO timestamps compare
+ * correctly as strings.
+ */
+function compare(op: string, value: unknown, operand: unknown): boolean {
+  switch (op) {
+    case 'eq':
+      return value === operand;
+    case 'is':
+      return operand === null ? value === null || value === undefined : value === operand;
+    case 'gt':
+      return value !== null && value !== undefined && (value as string) > (operand as string);
+    case 'gte':
+      return value !== null && value !== undefined && (value as string) >= (operand as string);
+    case 'lt':
+      return value !== null && value !== undefined && (value as string) < (operand as string);
+    case 'lte':
+      return value !== null && value !== undefined && (value as string) <= (operand as string);
+    default:
+      throw new Error(`Unsupported filter operator: ${op}`);
+  }
+}
+
+/**
+ * Parse an .or() filter such as `stripe_event_at.is.null,stripe_event_at.lte."2025-01-01T00:00:00Z"`
+ */
+function parseOr(expression: string): Filter {
+  const parts = expression.match(/[^,"]+(?:"[^"]*")?/g) || [];
+  const conditions = parts.map(part => {
+    const [column, op, ...rest] = part.split('.');
+    const raw = rest.join('.');
+    const operand = raw === 'null' ? null : raw.replace(/^"|"$/g, '');
+    return (row: Row) => compare(op, row[column], operand);
+  });
+  return row => conditions.some(condition => condition(row));
+}
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private filters: Filter[] = [];
+  private operation: 'select' | 'insert' | 'upsert' | 'update' = 'select';
+  private values: Row[] = [];
+  private conflict: { columns: string[]; ignoreDuplicates: boolean } | null = null;
+  private returning = false;
+  private columns: string[] | null = null;
+  private orderBy: { column: string; ascending: boolean } | null = null;
+  private window: { from: number; to: number } | null = null;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(private readonly db: FakeSupabase, private readonly table: string) {}
+
+  insert(values: Row | Row[]): this {
+    this.operation = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.insert(values);
+    this.operation = 'upsert';
+    this.conflict = {
+      columns: (options.onConflict || this.db.primaryKey(this.table)).split(',').map(column => column.trim()),
+      ignoreDuplicates: options.ignoreDuplicates === true,
+    };
+    return this;
+  }
+
+  update(values: Row): this {
+    this.operation = 'update';
+    this.values = [values];
+    return this;
+  }
+
+  select(columns = '*'): this {
+    if (this.operation !== 'select') {
+      this.returning = true;
+    }
+    this.columns = columns === '*' ? null : columns.split(',').map(column => column.trim());
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => compare('eq', row[column], value));
+    return this;
+  }
+
+  is(column: string, value: unknown): this {
+    this.filters.push(row => compare('is', row[column], value));
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push(row => compare('gt', row[column], value));
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => compare('gte', row[column], value));
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push(row => compare('lt', row[column], value));
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push(row => compare('lte', row[column], value));
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  or(expression: string): this {
+    this.filters.push(parseOr(expression));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderBy = { column, ascending: options.ascending !== false };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  single(): this {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private execute(): QueryResult {
+    const rows = this.db.rows(this.table);
+    let affected: Row[];
+
+    if (this.operation === 'insert') {
+      const key = this.db.primaryKey(this.table);
+      const inserted: Row[] = this.values.map(values => ({
+        id: randomUUID(),
+        created_at: this.db.nextTimestamp(),
+        ...values
+      }));
+      for (const row of inserted) {
+        if (rows.some(existing => existing[key] === row[key])) {
+          return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint on ${this.table}` } };
+        }
+      }
+      rows.push(...inserted);
+      affected = inserted;
+    } else if (this.operation === 'upsert') {
+      const { columns, ignoreDuplicates } = this.conflict!;
+      affected = [];
+      for (const values of this.values) {
+        const existing = rows.find(row => columns.every(column => row[column] === values[column]));
+        if (!existing) {
+          const row: Row = { id: randomUUID(), created_at: this.db.nextTimestamp(), ...values };
+          rows.push(row);
+          affected.push(row);
+        } else if (!ignoreDuplicates) {
+          Object.assign(existing, values);
+          affected.push(existing);
+        }
+      }
+    } else {
+      affected = rows.filter(row => this.filters.every(filter => filter(row)));
+      if (this.operation === 'update') {
+        for (const row of affected) {
+          Object.assign(row, this.values[0]);
+        }
+      }
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      affected = [...affected].sort((a, b) => {
+        const order = String(a[column]) < String(b[column]) ? -1 : String(a[column]) > String(b[column]) ? 1 : 0;
+        return ascending ? order : -order;
+      });
+    }
+    if (this.window) {
+      affected = affected.slice(this.window.from, this.window.to + 1);
+    }
+
+    const data = affected.map(row => (this.columns ? Object.fromEntries(this.columns.map(column => [column, row[column] ?? null])) : { ...row }));
+
+    if (this.cardinality === 'many') {
+      return { data, error: null };
+    }
+    if (data.length > 1 || (data.length === 0 && this.cardinality === 'single')) {
+      return { data: null, error: { code: 'PGRST116', message: `Expected 1 row, got ${data.length}` } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+/**
+ * In-memory tables keyed by name. Seed rows with `seed`, inspect them with `rows`.
+ */
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private clock = Date.parse('2025-01-01T00:00:00Z');
+
+  constructor(private readonly primaryKeys: Record<string, string> = {}) {}
+
+  from(table: string): QueryBuilder {
+    return new QueryBuilder(this, table);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, []);
+    }
+    return this.tables.get(table)!;
+  }
+
+  seed(table: string, rows: Row[]): void {
+    this.rows(table).push(...rows.map(row => ({ ...row })));
+  }
+
+  primaryKey(table: string): string {
+    return this.primaryKeys[table] || 'id';
+  }
+
+  /**
+   * Strictly increasing created_at values, so insertion order is sortable
+   */
+  nextTimestamp(): string {
+    this.clock += 1000;
+    return new Date(this.clock).toISOString();
+  }
+
+  reset(): void {
+    this.tables.clear();
+  }
+}
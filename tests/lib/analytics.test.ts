@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+import { DEFAULT_RANGE_DAYS, isDate, MAX_RANGE_DAYS, parseDateRange } from '@/lib/analytics';
+
+describe('isDate', () => {
+  it('accepts real calendar dates', () => {
+    expect(isDate('2024-02-29')).toBe(true);
+  });
+
+  it.each(['2025-02-29', '2025-13-01', '2025-00-10', '2025-1-1', 'garbage'])('rejects %s', value => {
+    expect(isDate(value)).toBe(false);
+  });
+});
+
+describe('parseDateRange', () => {
+  it(`defaults to the ${DEFAULT_RANGE_DAYS} days ending on to`, () => {
+    expect(parseDateRange({ to: '2025-06-10', tz: 'UTC' })).toEqual({
+      ok: true,
+      range: { timeZone: 'UTC', from: '2025-06-04', to: '2025-06-10' },
+    });
+  });
+
+  it('uses the given from and time zone', () => {
+    expect(parseDateRange({ from: '2025-06-01', to: '2025-06-10', tz: 'America/New_York' })).toEqual({
+      ok: true,
+      range: { timeZone: 'America/New_York', from: '2025-06-01', to: '2025-06-10' },
+    });
+  });
+
+  it.each([
+    { to: 'garbage' },
+    { to: '2025-13-01' },
+    { from: 'garbage', to: '2025-06-10' },
+    { from: '2025-02-30' },
+  ])('rejects invalid dates %j', query => {
+    expect(parseDateRange(query)).toEqual({ ok: false, error: 'from and to must be YYYY-MM-DD dates' });
+  });
+
+  it('rejects an unknown time zone', () => {
+    expect(parseDateRange({ tz: 'Mars/Olympus_Mons' })).toEqual({ ok: false, error: 'Invalid time zone' });
+  });
+
+  it('rejects a reversed or overlong range', () => {
+    expect(parseDateRange({ from: '2025-06-10', to: '2025-06-01' })).toEqual({ ok: false, error: 'from must not be after to' });
+    expect(parseDateRange({ from: '2020-01-01', to: '2025-06-01' })).toEqual({
+      ok: false,
+      error: `Date range cannot exceed ${MAX_RANGE_DAYS} days`,
+    });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { getSafeRedirectPath } from '@/lib/app-url';
+
+describe('getSafeRedirectPath', () => {
+  it('keeps same-site paths with their query and hash', () => {
+    expect(getSafeRedirectPath('/products?sort=view_count#top')).toBe('/products?sort=view_count#top');
+    expect(getSafeRedirectPath(['/billing', '/ignored'])).toBe('/billing');
+  });
+
+  it.each([
+    undefined,
+    '',
+    'https://evil.com',
+    'evil.com',
+    '//evil.com',
+    '/\\evil.com',
+    '/\t/evil.com',
+    '/\n/evil.com',
+    '/\r/evil.com',
+    '/\u007f/evil.com',
+    'javascript:alert(1)',
+  ])('falls back for %j', next => {
+    expect(getSafeRedirectPath(next)).toBe('/dashboard');
+  });
+
+  it('uses the given fallback', () => {
+    expect(getSafeRedirectPath('//evil.com', '/')).toBe('/');
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { estimateClockOffset, isClientTime, resolveEventTimestamp, type TimestampWindow } from '@/lib/event-timestamps';
+
+const receivedAt = Date.parse('2025-06-01T12:00:00Z');
+const clamp: TimestampWindow = { policy: 'clamp', maxAgeMs: 30 * 86400000, maxFutureMs: 300000 };
+
+describe('isClientTime', () => {
+  it('accepts times between 2000 and 2100', () => {
+    expect(isClientTime(receivedAt)).toBe(true);
+  });
+
+  it.each([1e20, -8.64e15, -1, NaN, Infinity, '1735689600000', undefined])('rejects %s', value => {
+    expect(isClientTime(value)).toBe(false);
+  });
+});
+
+describe('estimateClockOffset', () => {
+  it('ignores offsets within the latency tolerance', () => {
+    expect(estimateClockOffset(receivedAt - 2000, receivedAt)).toBe(0);
+    expect(estimateClockOffset(undefined, receivedAt)).toBe(0);
+  });
+
+  it('returns the offset of a wrong clock', () => {
+    expect(estimateClockOffset(receivedAt - 3600000, receivedAt)).toBe(3600000);
+  });
+});
+
+describe('resolveEventTimestamp', () => {
+  it('applies the clock offset', () => {
+    const time = resolveEventTimestamp(receivedAt - 3600000 - 1000, 3600000, receivedAt, clamp);
+    expect(time).toEqual({ ok: true, createdAt: new Date(receivedAt - 1000), clamped: false });
+  });
+
+  it('clamps future and old times under the clamp policy', () => {
+    expect(resolveEventTimestamp(receivedAt + 86400000, 0, receivedAt, clamp)).toEqual({
+      ok: true, createdAt: new Date(receivedAt), clamped: true,
+    });
+    expect(resolveEventTimestamp(Date.UTC(2000, 0, 1), 0, receivedAt, clamp)).toEqual({
+      ok: true, createdAt: new Date(receivedAt - clamp.maxAgeMs), clamped: true,
+    });
+  });
+
+  it('rejects them under the reject policy', () => {
+    const reject = { ...clamp, policy: 'reject' as const };
+    expect(resolveEventTimestamp(receivedAt + 86400000, 0, receivedAt, reject)).toEqual({ ok: false, reason: 'timestamp is in the future' });
+    expect(resolveEventTimestamp(Date.UTC(2000, 0, 1), 0, receivedAt, reject)).toEqual({ ok: false, reason: 'timestamp is more than 30 days old' });
+  });
+});
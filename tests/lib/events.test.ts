@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { EVENT_METADATA_SCHEMAS, EVENT_TYPES, isEventType, validateEventMetadata } from '@/lib/events';
+
+describe('EVENT_TYPES', () => {
+  it('matches the CHECK constraint on event_logs.event_type', () => {
+    const sql = readFileSync(join(__dirname, '../../docs/sql/create_event_logs_table.sql'), 'utf8');
+    const check = sql.match(/CHECK \(event_type IN \(([^)]*)\)/)![1];
+    const allowed = [...check.matchAll(/'([a-z_]+)'/g)].map(match => match[1]);
+
+    expect([...EVENT_TYPES].sort()).toEqual(allowed.sort());
+  });
+
+  it('has a metadata schema for every type', () => {
+    expect(Object.keys(EVENT_METADATA_SCHEMAS).sort()).toEqual([...EVENT_TYPES].sort());
+  });
+
+  it('recognizes known types only', () => {
+    expect(isEventType('product_sourced')).toBe(true);
+    expect(isEventType('product_deleted')).toBe(false);
+    expect(isEventType(undefined)).toBe(false);
+  });
+});
+
+describe('validateEventMetadata', () => {
+  it('accepts valid metadata and missing optional fields', () => {
+    expect(validateEventMetadata('session_end', { sessionLength: 42.5 })).toEqual([]);
+    expect(validateEventMetadata('product_sourced', { title: 'Widget', price: 19.99, profit: -2, roi: -10 })).toEqual([]);
+    expect(validateEventMetadata('product_sourced', {})).toEqual([]);
+    expect(validateEventMetadata('user_active', undefined)).toEqual([]);
+  });
+
+  it('keeps fields the schema does not list', () => {
+    expect(validateEventMetadata('settings_saved', { theme: 'dark' })).toEqual([]);
+  });
+
+  it('requires required fields', () => {
+    expect(validateEventMetadata('pricing_modified', { oldPrice: 10, newPrice: null })).toEqual([
+      { field: 'metadata.newPrice', message: 'is required' },
+    ]);
+    expect(validateEventMetadata('session_end', undefined)).toEqual([
+      { field: 'metadata.sessionLength', message: 'is required' },
+    ]);
+  });
+
+  it.each([
+    ['session_end', { sessionLength: '42' }, 'metadata.sessionLength', 'must be a number'],
+    ['session_end', { sessionLength: NaN }, 'metadata.sessionLength', 'must be a number'],
+    ['session_end', { sessionLength: -1 }, 'metadata.sessionLength', 'must be at least 0'],
+    ['session_end', { sessionLength: 1441 }, 'metadata.sessionLength', 'must be at most 1440'],
+    ['export_all_clicked', { productCount: 2.5 }, 'metadata.productCount', 'must be a whole number'],
+    ['product_sourced', { title: 'x'.repeat(501) }, 'metadata.title', 'must be at most 500 characters'],
+    ['product_sourced', { title: 42 }, 'metadata.title', 'must be a string'],
+  ] as const)('rejects %s metadata %j', (eventType, metadata, field, message) => {
+    expect(validateEventMetadata(eventType, metadata)).toEqual([{ field, message }]);
+  });
+
+  it('reports every invalid field', () => {
+    expect(validateEventMetadata('pricing_modified', { oldPrice: -1 })).toEqual([
+      { field: 'metadata.oldPrice', message: 'must be at least 0' },
+      { field: 'metadata.newPrice', message: 'is required' },
+    ]);
+  });
+
+  it.each([null, [], 'metadata', 42])('rejects metadata that is not an object: %j', metadata => {
+    expect(validateEventMetadata('user_active', metadata)).toEqual([{ field: 'metadata', message: 'must be an object' }]);
+  });
+});
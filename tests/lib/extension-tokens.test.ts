@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '../helpers/fake-supabase';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import {
+  ACCESS_TOKEN_PREFIX,
+  DEFAULT_EXTENSION_SCOPES,
+  HANDOFF_CODE_PREFIX,
+  MAX_ACTIVE_TOKENS,
+  REFRESH_TOKEN_PREFIX,
+  createHandoffCode,
+  exchangeHandoffCode,
+  refreshExtensionToken,
+  revokeExtensionToken,
+  revokeExtensionTokenByRefreshToken,
+  revokeUserExtensionTokens,
+  verifyExtensionAccessToken,
+} from '@/lib/extension-tokens';
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+/**
+ * Mint a handoff code and exchange it, as the dashboard and extension do
+ */
+async function signIn(userId = 'user-1') {
+  const { code } = await createHandoffCode(userId);
+  return (await exchangeHandoffCode(code))!;
+}
+
+describe('extension tokens', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.parse('2025-06-01T12:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('handoff codes', () => {
+    it('stores only the hash of a code', async () => {
+      const { code, expiresAt } = await createHandoffCode('user-1');
+
+      expect(code.startsWith(HANDOFF_CODE_PREFIX)).toBe(true);
+      expect(expiresAt).toBe('2025-06-01T12:02:00.000Z');
+      expect(db.rows('extension_handoff_codes')).toEqual([
+        expect.objectContaining({ user_id: 'user-1', code_hash: expect.not.stringContaining(code) }),
+      ]);
+    });
+
+    it('exchanges a code for tokens once', async () => {
+      const { code } = await createHandoffCode('user-1');
+
+      const issued = await exchangeHandoffCode(code);
+      expect(issued).toMatchObject({ userId: 'user-1', scopes: DEFAULT_EXTENSION_SCOPES });
+      expect(issued!.accessToken.startsWith(ACCESS_TOKEN_PREFIX)).toBe(true);
+      expect(issued!.refreshToken.startsWith(REFRESH_TOKEN_PREFIX)).toBe(true);
+
+      expect(await exchangeHandoffCode(code)).toBeNull();
+      expect(db.rows('extension_tokens')).toHaveLength(1);
+    });
+
+    it('refuses an expired or unknown code', async () => {
+      const { code } = await createHandoffCode('user-1');
+      vi.advanceTimersByTime(2 * 60 * 1000);
+
+      expect(await exchangeHandoffCode(code)).toBeNull();
+      expect(await exchangeHandoffCode(`${HANDOFF_CODE_PREFIX}unknown`)).toBeNull();
+    });
+
+    it(`keeps at most ${MAX_ACTIVE_TOKENS} active tokens per user`, async () => {
+      const first = await signIn();
+      for (let i = 0; i < MAX_ACTIVE_TOKENS; i++) {
+        await signIn();
+      }
+
+      expect(db.rows('extension_tokens').filter(row => !row.revoked_at)).toHaveLength(MAX_ACTIVE_TOKENS);
+      expect(await verifyExtensionAccessToken(first.accessToken)).toBe('revoked');
+    });
+  });
+
+  describe('refreshExtensionToken', () => {
+    it('rotates both tokens and retires the old refresh token', async () => {
+      const issued = await signIn();
+
+      const refreshed = await refreshExtensionToken(issued.refreshToken);
+      expect(refreshed).toMatchObject({ tokenId: issued.tokenId, userId: 'user-1' });
+      expect(refreshed!.accessToken).not.toBe(issued.accessToken);
+      expect(refreshed!.refreshToken).not.toBe(issued.refreshToken);
+
+      expect(await refreshExtensionToken(issued.refreshToken)).toBeNull();
+      expect(await verifyExtensionAccessToken(issued.accessToken)).toBeNull();
+      expect(await verifyExtensionAccessToken(refreshed!.accessToken)).toEqual({
+        tokenId: issued.tokenId,
+        userId: 'user-1',
+        scopes: DEFAULT_EXTENSION_SCOPES,
+      });
+    });
+
+    it('refuses a revoked or expired refresh token', async () => {
+      const revoked = await signIn();
+      await revokeExtensionToken(revoked.tokenId);
+      expect(await refreshExtensionToken(revoked.refreshToken)).toBeNull();
+
+      const expired = await signIn();
+      vi.advanceTimersByTime(30 * 24 * 60 * 60 * 1000);
+      expect(await refreshExtensionToken(expired.refreshToken)).toBeNull();
+    });
+  });
+
+  describe('verifyExtensionAccessToken', () => {
+    it('returns the token identity', async () => {
+      const issued = await signIn();
+
+      expect(await verifyExtensionAccessToken(issued.accessToken)).toEqual({
+        tokenId: issued.tokenId,
+        userId: 'user-1',
+        scopes: DEFAULT_EXTENSION_SCOPES,
+      });
+    });
+
+    it('reports expired and revoked tokens separately', async () => {
+      const issued = await signIn();
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(await verifyExtensionAccessToken(issued.accessToken)).toBe('expired');
+
+      await revokeExtensionToken(issued.tokenId);
+      expect(await verifyExtensionAccessToken(issued.accessToken)).toBe('revoked');
+    });
+
+    it('returns null for an unknown token', async () => {
+      expect(await verifyExtensionAccessToken(`${ACCESS_TOKEN_PREFIX}unknown`)).toBeNull();
+    });
+  });
+
+  describe('revocation', () => {
+    it('revokes a token by ID once', async () => {
+      const issued = await signIn();
+
+      expect(await revokeExtensionToken(issued.tokenId)).toBe(1);
+      expect(await revokeExtensionToken(issued.tokenId)).toBe(0);
+    });
+
+    it('revokes the token a refresh token belongs to', async () => {
+      const issued = await signIn();
+
+      expect(await revokeExtensionTokenByRefreshToken(issued.refreshToken)).toBe(1);
+      expect(await verifyExtensionAccessToken(issued.accessToken)).toBe('revoked');
+    });
+
+    it("revokes only the signed-out user's tokens", async () => {
+      const mine = [await signIn(), await signIn()];
+      const theirs = await signIn('user-2');
+
+      expect(await revokeUserExtensionTokens('user-1')).toBe(2);
+      for (const issued of mine) {
+        expect(await verifyExtensionAccessToken(issued.accessToken)).toBe('revoked');
+      }
+      expect(await verifyExtensionAccessToken(theirs.accessToken)).toMatchObject({ userId: 'user-2' });
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase', () => ({ DEBUG: false }));
+vi.mock('@/lib/api-client', () => ({ authorizedFetch: vi.fn() }));
+
+import { authorizedFetch } from '@/lib/api-client';
+import {
+  EXTENSION_ID,
+  PROTOCOL_VERSION,
+  handshake,
+  resetHandshake,
+  sendBridgeMessage,
+  syncAuthWithExtension,
+  type BridgeMessage,
+} from '@/lib/extension';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type Callback = (response: unknown) => void;
+
+interface FakeRuntime {
+  sendMessage: ReturnType<typeof vi.fn<(extensionId: string, message: BridgeMessage, callback: Callback) => void>>;
+  lastError?: { message: string };
+}
+
+const PING_REPLY = { ok: true, protocolVersion: PROTOCOL_VERSION, minProtocolVersion: 1, extensionVersion: '2.0.0' };
+
+/**
+ * Install a chrome.runtime whose sendMessage answers each message with
+ * `reply(message)`; answers of undefined are never delivered
+ */
+function installRuntime(reply: (message: BridgeMessage, runtime: FakeRuntime) => unknown): FakeRuntime {
+  const runtime: FakeRuntime = {
+    sendMessage: vi.fn((_extensionId, message, callback) => {
+      const response = reply(message, runtime);
+      if (response !== undefined) {
+        queueMicrotask(() => callback(response));
+      }
+    }),
+  };
+  vi.stubGlobal('window', { chrome: { runtime }, location: { origin: 'https://app.example.com' } });
+  return runtime;
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('extension bridge', () => {
+  beforeEach(() => {
+    resetHandshake();
+    vi.mocked(authorizedFetch).mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  describe('handshake', () => {
+    it('PINGs the extension with the protocol version and caches a compatible reply', async () => {
+      const runtime = installRuntime(() => PING_REPLY);
+
+      const first = await handshake();
+      const second = await handshake();
+
+      expect(first).toEqual({ ok: true, reply: PING_REPLY });
+      expect(second).toBe(first);
+      expect(runtime.sendMessage).toHaveBeenCalledTimes(1);
+      expect(runtime.sendMessage).toHaveBeenCalledWith(EXTENSION_ID, { type: 'PING', version: PROTOCOL_VERSION }, expect.any(Function));
+    });
+
+    it('times out when the extension never answers, and retries next time', async () => {
+      vi.useFakeTimers();
+      const runtime = installRuntime(() => undefined);
+
+      const pending = handshake({ timeoutMs: 1000 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await pending).toEqual({ ok: false, reason: 'timeout' });
+
+      const retry = handshake({ timeoutMs: 1000 });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await retry).toEqual({ ok: false, reason: 'timeout' });
+      expect(runtime.sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports chrome.runtime.lastError as not installed', async () => {
+      installRuntime((_message, runtime) => {
+        runtime.lastError = { message: 'Could not establish connection. Receiving end does not exist.' };
+        return null;
+      });
+
+      expect(await handshake()).toEqual({
+        ok: false,
+        reason: 'not_installed',
+        error: 'Could not establish connection. Receiving end does not exist.',
+      });
+    });
+
+    it('reports a reply that is not a BridgeReply as invalid', async () => {
+      installRuntime(() => 'pong');
+
+      expect(await handshake()).toEqual({ ok: false, reason: 'invalid_reply' });
+    });
+
+    it('reports an extension that does not speak our protocol version as incompatible', async () => {
+      installRuntime(() => ({ ok: true, protocolVersion: PROTOCOL_VERSION + 2, minProtocolVersion: PROTOCOL_VERSION + 1 }));
+
+      expect(await handshake()).toEqual({
+        ok: false,
+        reason: 'incompatible',
+        error: `Extension speaks protocol ${PROTOCOL_VERSION + 1}-${PROTOCOL_VERSION + 2}, site speaks ${PROTOCOL_VERSION}`,
+      });
+    });
+
+    it('reports an older extension without a version as incompatible', async () => {
+      installRuntime(() => ({ ok: true }));
+
+      expect(await handshake()).toMatchObject({ ok: false, reason: 'incompatible' });
+    });
+  });
+
+  describe('sendBridgeMessage', () => {
+    it('is unavailable outside a browser with chrome.runtime', async () => {
+      vi.stubGlobal('window', {});
+
+      expect(await sendBridgeMessage({ type: 'LOGOUT', version: PROTOCOL_VERSION })).toEqual({ ok: false, reason: 'unavailable' });
+    });
+
+    it('reports ok: false replies as rejected', async () => {
+      installRuntime(() => ({ ok: false, error: 'Not signed in' }));
+
+      expect(await sendBridgeMessage({ type: 'LOGOUT', version: PROTOCOL_VERSION })).toEqual({
+        ok: false,
+        reason: 'rejected',
+        error: 'Not signed in',
+      });
+    });
+  });
+
+  describe('syncAuthWithExtension', () => {
+    it('sends a handoff code after the handshake', async () => {
+      const runtime = installRuntime(message => (message.type === 'PING' ? PING_REPLY : { ok: true }));
+      vi.mocked(authorizedFetch).mockResolvedValue(
+        new Response(JSON.stringify({ code: 'handoff-code', expiresAt: '2025-01-01T00:01:00.000Z' }), { status: 200 })
+      );
+
+      expect(await syncAuthWithExtension()).toEqual({ ok: true, reply: { ok: true } });
+      expect(runtime.sendMessage).toHaveBeenLastCalledWith(EXTENSION_ID, {
+        type: 'AUTH_SUCCESS',
+        version: PROTOCOL_VERSION,
+        data: { code: 'handoff-code', expiresAt: '2025-01-01T00:01:00.000Z', origin: 'https://app.example.com' },
+      }, expect.any(Function));
+    });
+
+    it('does not mint a code when the handshake fails', async () => {
+      installRuntime(() => 'pong');
+
+      expect(await syncAuthWithExtension()).toEqual({ ok: false, reason: 'invalid_reply' });
+      expect(authorizedFetch).not.toHaveBeenCalled();
+    });
+  });
+});
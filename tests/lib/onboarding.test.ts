@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '../helpers/fake-supabase';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase({ user_onboarding: 'user_id' }) };
+});
+
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { getOnboardingState, isOnboardingStep, ONBOARDING_STEPS, recordOnboardingStep } from '@/lib/onboarding';
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+// Steps are remembered per process, so each test uses its own user
+let userCount = 0;
+function newUser(): string {
+  userCount += 1;
+  return `user-${userCount}`;
+}
+
+describe('isOnboardingStep', () => {
+  it('accepts every step', () => {
+    expect(ONBOARDING_STEPS.every(isOnboardingStep)).toBe(true);
+  });
+
+  it.each(['toString', 'constructor', '__proto__', 'hasOwnProperty', 42])('rejects %j', value => {
+    expect(isOnboardingStep(value)).toBe(false);
+  });
+});
+
+describe('recordOnboardingStep', () => {
+  beforeEach(() => {
+    db.reset();
+    vi.restoreAllMocks();
+  });
+
+  it('creates the row for a user who has none', async () => {
+    const userId = newUser();
+
+    await recordOnboardingStep(userId, 'first_product_sourced');
+
+    expect(await getOnboardingState(userId)).toMatchObject({
+      extensionInstalledAt: null,
+      firstProductSourcedAt: expect.any(String),
+      completed: false,
+    });
+  });
+
+  it('records a pending step with one update and keeps the first completion time', async () => {
+    const userId = newUser();
+    db.seed('user_onboarding', [{ user_id: userId, first_product_sourced_at: null, extension_synced_at: '2025-01-01T00:00:00.000Z' }]);
+    const from = vi.spyOn(db, 'from');
+
+    await recordOnboardingStep(userId, 'first_product_sourced');
+    expect(from).toHaveBeenCalledTimes(1);
+
+    await recordOnboardingStep(userId, 'extension_synced');
+    expect(db.rows('user_onboarding')[0]).toMatchObject({
+      extension_synced_at: '2025-01-01T00:00:00.000Z',
+      first_product_sourced_at: expect.any(String),
+    });
+  });
+
+  it('stops querying once a step is known to be recorded', async () => {
+    const userId = newUser();
+    await recordOnboardingStep(userId, 'first_product_sourced');
+    const from = vi.spyOn(db, 'from');
+
+    await recordOnboardingStep(userId, 'first_product_sourced');
+    await recordOnboardingStep(userId, 'first_product_sourced');
+
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('still updates the extension version of a recorded step', async () => {
+    const userId = newUser();
+    await recordOnboardingStep(userId, 'extension_installed', '1.0.0');
+    await recordOnboardingStep(userId, 'extension_installed', '1.1.0');
+
+    expect(await getOnboardingState(userId)).toMatchObject({ extensionVersion: '1.1.0' });
+  });
+});
@@ -0,0 +1,81 @@
+import type { NextApiResponse } from 'next';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+import { createMemoryStore, enforceRateLimit, identityKeys, setRateLimitStore } from '@/lib/rate-limit';
+
+function mockResponse() {
+  return {
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    },
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+      return this;
+    },
+  };
+}
+
+describe('identityKeys', () => {
+  it('counts session callers against their user', () => {
+    expect(identityKeys({ userId: 'user-1', method: 'session' })).toEqual([{ scope: 'user', id: 'user-1' }]);
+  });
+
+  it('also counts the extension key or token used', () => {
+    expect(identityKeys({ userId: 'user-1', method: 'extension_key', keyId: 'key-1' })).toEqual([
+      { scope: 'user', id: 'user-1' },
+      { scope: 'key', id: 'key-1' },
+    ]);
+    expect(identityKeys({ userId: 'user-1', method: 'extension_token', tokenId: 'token-1' })).toEqual([
+      { scope: 'user', id: 'user-1' },
+      { scope: 'token', id: 'token-1' },
+    ]);
+  });
+});
+
+describe('enforceRateLimit', () => {
+  beforeEach(() => {
+    // Mid-window, so the counts can't reset during a test
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.parse('2025-06-01T12:00:30Z') });
+    setRateLimitStore(createMemoryStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends 429 with Retry-After once a limit is exceeded', async () => {
+    const keys = [{ scope: 'email' as const, id: 'seller@example.com' }];
+    for (let i = 0; i < 5; i++) {
+      expect(await enforceRateLimit(mockResponse() as unknown as NextApiResponse, 'password-reset', keys)).toBe(true);
+    }
+
+    const res = mockResponse();
+    expect(await enforceRateLimit(res as unknown as NextApiResponse, 'password-reset', keys)).toBe(false);
+    expect(res.statusCode).toBe(429);
+    expect(Number(res.headers['Retry-After'])).toBeGreaterThan(0);
+  });
+
+  it('limits each extension token separately from the account', async () => {
+    const first = identityKeys({ userId: 'user-1', method: 'extension_token', tokenId: 'token-1' });
+    for (let i = 0; i < 30; i++) {
+      await enforceRateLimit(mockResponse() as unknown as NextApiResponse, 'check-user-status', [first[1]]);
+    }
+
+    expect(await enforceRateLimit(mockResponse() as unknown as NextApiResponse, 'check-user-status', first)).toBe(false);
+    const second = identityKeys({ userId: 'user-1', method: 'extension_token', tokenId: 'token-2' });
+    expect(await enforceRateLimit(mockResponse() as unknown as NextApiResponse, 'check-user-status', second)).toBe(true);
+  });
+});
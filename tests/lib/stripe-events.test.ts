@@ -0,0 +1,38 @@
+import type Stripe from 'stripe';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FakeSupabase } from '../helpers/fake-supabase';
+
+vi.mock('@/lib/supabase-admin', async () => {
+  const { FakeSupabase } = await import('../helpers/fake-supabase');
+  return { supabaseAdmin: new FakeSupabase() };
+});
+
+import { supabaseAdmin } from '@/lib/supabase-admin';
+import { recordEventReceived } from '@/lib/stripe-events';
+
+const db = supabaseAdmin as unknown as FakeSupabase;
+
+const event = { id: 'evt_1', type: 'invoice.paid', livemode: false, created: 1735689600 } as Stripe.Event;
+
+describe('recordEventReceived', () => {
+  beforeEach(() => {
+    db.reset();
+  });
+
+  it('processes the first delivery and treats the next as a duplicate', async () => {
+    expect(await recordEventReceived(event)).toBe('process');
+    expect(await recordEventReceived(event)).toBe('duplicate');
+  });
+
+  it.each([
+    ['failed', '2025-01-01T00:00:00.000Z'],
+    ['pending', '2000-01-01T00:00:00.000Z'],
+  ])('lets only one of two concurrent retries reclaim a %s attempt', async (outcome, receivedAt) => {
+    db.seed('stripe_events', [{ id: event.id, type: event.type, outcome, attempts: 1, received_at: receivedAt }]);
+
+    const decisions = await Promise.all([recordEventReceived(event), recordEventReceived(event)]);
+
+    expect(decisions.sort()).toEqual(['duplicate', 'process']);
+    expect(db.rows('stripe_events')[0]).toMatchObject({ outcome: 'pending', attempts: 2 });
+  });
+});
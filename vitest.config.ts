@@ -0,0 +1,18 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+    },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    env: {
+      TEST_STRIPE_SECRET_KEY: 'sk_test_fixture',
+      TEST_STRIPE_WEBHOOK_SECRET: 'whsec_fixture',
+    },
+  },
+});